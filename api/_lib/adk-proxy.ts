@@ -0,0 +1,179 @@
+import type { ServerResponse } from 'http';
+import { ApiRequest, HttpError, readJsonBody, sendJson } from './http.js';
+import { resolveIdentity } from './identity.js';
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const MAX_MESSAGE_LENGTH = 8000;
+
+interface ADKMessagePart {
+  text: string;
+}
+
+type ADKProxyRequest =
+  | { action: 'createSession'; sessionId: string }
+  | { action: 'run'; sessionId: string; parts: ADKMessagePart[]; streaming: boolean };
+
+function getConfig() {
+  return {
+    baseURL: (process.env.ADK_URL || process.env.VITE_ADK_URL || '').replace(/\/$/, ''),
+    appName: process.env.ADK_APP_NAME || process.env.VITE_ADK_APP_NAME || 'rag_agent',
+    authToken: process.env.ADK_AUTH_TOKEN || '',
+  };
+}
+
+function upstreamHeaders(authToken: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (authToken) {
+    headers['Authorization'] = `Bearer ${authToken}`;
+  }
+  return headers;
+}
+
+function isMessagePart(value: unknown): value is ADKMessagePart {
+  if (!value || typeof value !== 'object') return false;
+  const { text } = value as Record<string, unknown>;
+  return typeof text === 'string' && text.length <= MAX_MESSAGE_LENGTH;
+}
+
+function parseRequest(body: unknown): ADKProxyRequest {
+  if (!body || typeof body !== 'object') {
+    throw new HttpError('Invalid request body', 400);
+  }
+
+  const { action, sessionId, parts, streaming } = body as Record<string, unknown>;
+
+  if (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId)) {
+    throw new HttpError('Invalid sessionId', 400);
+  }
+
+  if (action === 'createSession') {
+    return { action, sessionId };
+  }
+
+  if (action === 'run') {
+    if (!Array.isArray(parts) || parts.length === 0 || !parts.every(isMessagePart)) {
+      throw new HttpError('Invalid message parts', 400);
+    }
+    return { action, sessionId, parts, streaming: streaming !== false };
+  }
+
+  throw new HttpError('Unknown action', 400);
+}
+
+/**
+ * Pipe an upstream SSE response to the client chunk by chunk (no buffering)
+ */
+async function pipeEventStream(
+  upstream: Response,
+  res: ServerResponse,
+  signal: AbortSignal
+): Promise<void> {
+  res.statusCode = upstream.status;
+  res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  const reader = upstream.body?.getReader();
+  if (!reader) {
+    res.end();
+    return;
+  }
+
+  try {
+    while (!signal.aborted) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+  } finally {
+    reader.releaseLock();
+    res.end();
+  }
+}
+
+/**
+ * ADK proxy
+ *
+ * - createSession: POST /apps/{app}/users/{user}/sessions/{id}
+ * - run: POST /run_sse, streamed back as-is
+ *
+ * The ADK userId is the caller's signed identity (issued by the server, never
+ * client-chosen), and ADK_AUTH_TOKEN is injected server-side.
+ */
+export async function handleADKProxy(req: ApiRequest, res: ServerResponse): Promise<void> {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  const { baseURL, appName, authToken } = getConfig();
+  if (!baseURL) {
+    sendJson(res, 503, { error: 'ADK URL not configured' });
+    return;
+  }
+
+  // Abort the upstream request when the browser goes away
+  const abortController = new AbortController();
+  res.on('close', () => abortController.abort());
+
+  try {
+    const body = await readJsonBody(req).catch(() => {
+      throw new HttpError('Invalid JSON body', 400);
+    });
+    const request = parseRequest(body);
+
+    const userId = resolveIdentity(req, res);
+
+    if (request.action === 'createSession') {
+      const upstream = await fetch(
+        `${baseURL}/apps/${appName}/users/${userId}/sessions/${request.sessionId}`,
+        {
+          method: 'POST',
+          headers: upstreamHeaders(authToken),
+          body: JSON.stringify({}),
+          signal: abortController.signal,
+        }
+      );
+      const text = await upstream.text();
+      res.statusCode = upstream.status;
+      res.setHeader('Content-Type', upstream.headers.get('Content-Type') || 'application/json');
+      res.end(text);
+      return;
+    }
+
+    const upstream = await fetch(`${baseURL}/run_sse`, {
+      method: 'POST',
+      headers: upstreamHeaders(authToken),
+      body: JSON.stringify({
+        appName,
+        userId,
+        sessionId: request.sessionId,
+        newMessage: { role: 'user', parts: request.parts },
+        streaming: request.streaming,
+      }),
+      signal: abortController.signal,
+    });
+
+    if (!upstream.ok) {
+      sendJson(res, upstream.status, { error: `ADK request failed: ${upstream.status}` });
+      return;
+    }
+
+    await pipeEventStream(upstream, res, abortController.signal);
+  } catch (error) {
+    if (abortController.signal.aborted) return;
+
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    console.error('[ADKProxy] Error:', error);
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendJson(res, 502, { error: 'ADK request failed' });
+    }
+  }
+}
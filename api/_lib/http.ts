@@ -0,0 +1,65 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+
+/**
+ * Minimal request shape shared by Vercel functions and the Vite dev middleware.
+ * Vercel pre-parses JSON into `body`; the dev server leaves it undefined.
+ */
+export interface ApiRequest extends IncomingMessage {
+  body?: unknown;
+}
+
+export type ApiHandler = (req: ApiRequest, res: ServerResponse) => Promise<void>;
+
+/**
+ * Error carrying the HTTP status the handler should answer with
+ */
+export class HttpError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+/**
+ * Send a JSON response
+ */
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Read the raw request body as a string
+ */
+export function readRawBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Get the parsed JSON body, reading the stream when the platform did not parse it
+ */
+export async function readJsonBody<T = unknown>(req: ApiRequest): Promise<T> {
+  if (req.body !== undefined) {
+    return (typeof req.body === 'string' ? JSON.parse(req.body) : req.body) as T;
+  }
+
+  const raw = await readRawBody(req);
+  return (raw ? JSON.parse(raw) : {}) as T;
+}
+
+/**
+ * Read a single header value (first one if repeated)
+ */
+export function getHeader(req: IncomingMessage, name: string): string | undefined {
+  const value = req.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
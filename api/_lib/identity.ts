@@ -0,0 +1,109 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getHeader } from './http.js';
+
+const IDENTITY_COOKIE = 'avatar_uid';
+const IDENTITY_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+const IDENTITY_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Secret used to sign identity cookies.
+ * Falls back to the LiveKit secret so existing deployments work without extra config.
+ */
+function getSigningSecret(): string {
+  const secret = process.env.IDENTITY_COOKIE_SECRET || process.env.LIVEKIT_API_SECRET;
+  if (!secret) {
+    throw new Error('IDENTITY_COOKIE_SECRET (or LIVEKIT_API_SECRET) must be set');
+  }
+  return secret;
+}
+
+/**
+ * HMAC-SHA256 signature (base64url) of a value
+ */
+export function sign(value: string): string {
+  return createHmac('sha256', getSigningSecret()).update(value).digest('base64url');
+}
+
+/**
+ * Constant-time check of a signature produced by `sign`
+ */
+export function verifySignature(value: string, signature: string): boolean {
+  const expected = Buffer.from(sign(value));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+export function isValidIdentity(identity: unknown): identity is string {
+  return typeof identity === 'string' && IDENTITY_PATTERN.test(identity);
+}
+
+/**
+ * Decoded value of one cookie, or null if missing or malformed
+ * (only this cookie is decoded - a stray '%' in an unrelated cookie must not fail the request)
+ */
+function readCookie(req: IncomingMessage, name: string): string | null {
+  const header = getHeader(req, 'cookie');
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const [cookieName, ...rest] = part.trim().split('=');
+    if (cookieName !== name || rest.length === 0) continue;
+    try {
+      return decodeURIComponent(rest.join('='));
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Read the identity from the signed cookie, or null if missing/tampered
+ */
+export function readIdentityCookie(req: IncomingMessage): string | null {
+  const cookie = readCookie(req, IDENTITY_COOKIE);
+  if (!cookie) return null;
+
+  const separator = cookie.lastIndexOf('.');
+  if (separator <= 0) return null;
+
+  const identity = cookie.slice(0, separator);
+  const signature = cookie.slice(separator + 1);
+
+  if (!isValidIdentity(identity) || !verifySignature(identity, signature)) {
+    return null;
+  }
+  return identity;
+}
+
+function setIdentityCookie(req: IncomingMessage, res: ServerResponse, identity: string): void {
+  const isHttps = getHeader(req, 'x-forwarded-proto') === 'https';
+  const attributes = [
+    `${IDENTITY_COOKIE}=${encodeURIComponent(`${identity}.${sign(identity)}`)}`,
+    'Path=/',
+    `Max-Age=${IDENTITY_COOKIE_MAX_AGE}`,
+    'HttpOnly',
+    'SameSite=Lax',
+  ];
+  if (isHttps) attributes.push('Secure');
+
+  res.setHeader('Set-Cookie', attributes.join('; '));
+}
+
+/**
+ * Resolve the caller's server-validated identity
+ *
+ * - A valid signed cookie always wins (the client cannot change its identity)
+ * - Otherwise a new identity is generated here and signed into the cookie for
+ *   all later requests. Identities proposed by the client are never adopted -
+ *   anyone who learned another user's identity could claim it.
+ */
+export function resolveIdentity(req: IncomingMessage, res: ServerResponse): string {
+  const cookieIdentity = readIdentityCookie(req);
+  if (cookieIdentity) return cookieIdentity;
+
+  const identity = `user-${randomUUID()}`;
+  setIdentityCookie(req, res, identity);
+  return identity;
+}
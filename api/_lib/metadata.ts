@@ -0,0 +1,170 @@
+import type { AvatarMetadata, ClientMetadata, FAQItem, HistoryMessage } from '../../src/lib/types/index.js';
+
+// Must stay in sync with the client-side trimming in LiveKitProvider
+export const MAX_METADATA_SIZE = 4096; // bytes of serialized JSON (4KB)
+const MAX_HISTORY_MESSAGES = 20;
+const MAX_HISTORY_CONTENT_LENGTH = 201; // 200 chars + ellipsis
+const MAX_FAQS = 20;
+const MAX_FAQ_QUESTION_LENGTH = 200;
+const MAX_FAQ_ANSWER_LENGTH = 1000;
+const LANGUAGE_PATTERN = /^[a-z]{2}(-[A-Za-z]{2,4})?$/;
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const AVATAR_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_VOICE_LENGTH = 64;
+
+export interface MetadataIssue {
+  path: string;
+  message: string;
+}
+
+export type MetadataValidationResult =
+  | { ok: true; value: ClientMetadata; serialized: string }
+  | { ok: false; code: 'invalid_metadata' | 'metadata_too_large'; issues: MetadataIssue[] };
+
+type Issues = MetadataIssue[];
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkKeys(value: Record<string, unknown>, allowed: string[], path: string, issues: Issues): void {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      issues.push({ path: path ? `${path}.${key}` : key, message: 'unknown field' });
+    }
+  }
+}
+
+function checkString(value: unknown, path: string, maxLength: number, issues: Issues): value is string {
+  if (typeof value !== 'string') {
+    issues.push({ path, message: 'must be a string' });
+    return false;
+  }
+  if (value.length > maxLength) {
+    issues.push({ path, message: `must be at most ${maxLength} characters` });
+    return false;
+  }
+  return true;
+}
+
+function validateFaqs(value: unknown, issues: Issues): FAQItem[] | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'faqs', message: 'must be an array' });
+    return undefined;
+  }
+  if (value.length > MAX_FAQS) {
+    issues.push({ path: 'faqs', message: `must have at most ${MAX_FAQS} items` });
+    return undefined;
+  }
+
+  return value.flatMap((item, index) => {
+    const path = `faqs[${index}]`;
+    if (!isPlainObject(item)) {
+      issues.push({ path, message: 'must be an object' });
+      return [];
+    }
+    checkKeys(item, ['question', 'answer'], path, issues);
+    const questionOk = checkString(item.question, `${path}.question`, MAX_FAQ_QUESTION_LENGTH, issues);
+    const answerOk = checkString(item.answer, `${path}.answer`, MAX_FAQ_ANSWER_LENGTH, issues);
+    return questionOk && answerOk
+      ? [{ question: item.question as string, answer: item.answer as string }]
+      : [];
+  });
+}
+
+function validateChatHistory(value: unknown, issues: Issues): HistoryMessage[] | undefined {
+  if (!Array.isArray(value)) {
+    issues.push({ path: 'chatHistory', message: 'must be an array' });
+    return undefined;
+  }
+  if (value.length > MAX_HISTORY_MESSAGES) {
+    issues.push({ path: 'chatHistory', message: `must have at most ${MAX_HISTORY_MESSAGES} items` });
+    return undefined;
+  }
+
+  return value.flatMap((item, index) => {
+    const path = `chatHistory[${index}]`;
+    if (!isPlainObject(item)) {
+      issues.push({ path, message: 'must be an object' });
+      return [];
+    }
+    checkKeys(item, ['role', 'content'], path, issues);
+    if (item.role !== 'user' && item.role !== 'assistant') {
+      issues.push({ path: `${path}.role`, message: 'must be "user" or "assistant"' });
+      return [];
+    }
+    if (!checkString(item.content, `${path}.content`, MAX_HISTORY_CONTENT_LENGTH, issues)) {
+      return [];
+    }
+    return [{ role: item.role, content: item.content as string }];
+  });
+}
+
+function validateAvatar(value: unknown, issues: Issues): AvatarMetadata | undefined {
+  if (!isPlainObject(value)) {
+    issues.push({ path: 'avatar', message: 'must be an object' });
+    return undefined;
+  }
+  checkKeys(value, ['id', 'voice'], 'avatar', issues);
+  if (typeof value.id !== 'string' || !AVATAR_ID_PATTERN.test(value.id)) {
+    issues.push({ path: 'avatar.id', message: 'must be an avatar id' });
+    return undefined;
+  }
+  if (value.voice !== undefined && !checkString(value.voice, 'avatar.voice', MAX_VOICE_LENGTH, issues)) {
+    return undefined;
+  }
+  return value.voice !== undefined ? { id: value.id, voice: value.voice as string } : { id: value.id };
+}
+
+/**
+ * Validate ClientMetadata and enforce the serialized size budget
+ *
+ * Only known fields are kept, so the JWT carries exactly what the agent expects.
+ */
+export function validateClientMetadata(input: unknown): MetadataValidationResult {
+  const issues: Issues = [];
+
+  if (!isPlainObject(input)) {
+    return { ok: false, code: 'invalid_metadata', issues: [{ path: '', message: 'must be an object' }] };
+  }
+
+  checkKeys(input, ['language', 'faqs', 'chatHistory', 'sessionId', 'avatar'], '', issues);
+
+  const language = input.language;
+  if (typeof language !== 'string' || !LANGUAGE_PATTERN.test(language)) {
+    issues.push({ path: 'language', message: 'must be a language code like "ko" or "en"' });
+  }
+
+  const sessionId = input.sessionId;
+  if (sessionId !== undefined && (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId))) {
+    issues.push({ path: 'sessionId', message: 'must be a session id' });
+  }
+
+  const faqs = input.faqs === undefined ? undefined : validateFaqs(input.faqs, issues);
+  const chatHistory = input.chatHistory === undefined ? undefined : validateChatHistory(input.chatHistory, issues);
+  const avatar = input.avatar === undefined ? undefined : validateAvatar(input.avatar, issues);
+
+  if (issues.length > 0) {
+    return { ok: false, code: 'invalid_metadata', issues };
+  }
+
+  const value: ClientMetadata = {
+    language: language as string,
+    ...(faqs ? { faqs } : {}),
+    ...(chatHistory ? { chatHistory } : {}),
+    ...(sessionId ? { sessionId: sessionId as string } : {}),
+    ...(avatar ? { avatar } : {}),
+  };
+
+  const serialized = JSON.stringify(value);
+  const size = Buffer.byteLength(serialized, 'utf8');
+  if (size > MAX_METADATA_SIZE) {
+    return {
+      ok: false,
+      code: 'metadata_too_large',
+      issues: [{ path: '', message: `serialized size ${size} bytes exceeds ${MAX_METADATA_SIZE} bytes` }],
+    };
+  }
+
+  return { ok: true, value, serialized };
+}
@@ -0,0 +1,45 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { getHeader } from './http.js';
+
+/**
+ * Origins allowed to call the API
+ * ALLOWED_ORIGINS is a comma-separated list; when unset only the API's own origin is allowed
+ */
+function getAllowedOrigins(req: IncomingMessage): string[] {
+  const configured = (process.env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map((origin) => origin.trim().replace(/\/$/, ''))
+    .filter(Boolean);
+
+  if (configured.length > 0) return configured;
+
+  const host = getHeader(req, 'x-forwarded-host') || getHeader(req, 'host');
+  if (!host) return [];
+
+  const protocol = getHeader(req, 'x-forwarded-proto') || 'http';
+  return [`${protocol}://${host}`];
+}
+
+/**
+ * Check the request Origin against the allowlist
+ * Requests without an Origin header (non-browser clients) are rejected
+ */
+export function isOriginAllowed(req: IncomingMessage): boolean {
+  const origin = getHeader(req, 'origin');
+  return Boolean(origin) && getAllowedOrigins(req).includes(origin!);
+}
+
+/**
+ * Set CORS headers for an allowed origin (never a wildcard)
+ */
+export function setCorsHeaders(req: IncomingMessage, res: ServerResponse, methods: string): void {
+  res.setHeader('Vary', 'Origin');
+
+  const origin = getHeader(req, 'origin');
+  if (!origin || !isOriginAllowed(req)) return;
+
+  res.setHeader('Access-Control-Allow-Origin', origin);
+  res.setHeader('Access-Control-Allow-Credentials', 'true');
+  res.setHeader('Access-Control-Allow-Methods', methods);
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+}
@@ -0,0 +1,95 @@
+import type { IncomingMessage } from 'http';
+import { getHeader } from './http.js';
+
+export interface RateLimitHit {
+  count: number;    // Hits in the current window (including this one)
+  resetAt: number;  // Epoch ms when the window resets
+}
+
+/**
+ * Storage backend for rate limit counters
+ * Implement this with a shared store (Redis, KV, ...) when running several instances
+ */
+export interface RateLimitStore {
+  hit(key: string, windowMs: number): Promise<RateLimitHit>;
+}
+
+/**
+ * Fixed-window counters kept in process memory
+ * Per-instance only: serverless cold starts and multiple instances each keep their own counts
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private windows = new Map<string, RateLimitHit>();
+  private lastSweep = 0;
+
+  async hit(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    this.sweep(now, windowMs);
+
+    const current = this.windows.get(key);
+    if (!current || current.resetAt <= now) {
+      const fresh = { count: 1, resetAt: now + windowMs };
+      this.windows.set(key, fresh);
+      return fresh;
+    }
+
+    current.count++;
+    return current;
+  }
+
+  // Drop expired windows at most once per window to bound memory
+  private sweep(now: number, windowMs: number): void {
+    if (now - this.lastSweep < windowMs) return;
+    this.lastSweep = now;
+
+    for (const [key, window] of this.windows) {
+      if (window.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+export interface RateLimiterOptions {
+  limit: number;
+  windowMs: number;
+  store?: RateLimitStore;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Create a per-key rate limiter
+ */
+export function createRateLimiter({ limit, windowMs, store = new MemoryRateLimitStore() }: RateLimiterOptions) {
+  return async (key: string): Promise<RateLimitResult> => {
+    const { count, resetAt } = await store.hit(key, windowMs);
+    return {
+      allowed: count <= limit,
+      remaining: Math.max(0, limit - count),
+      retryAfterSeconds: Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)),
+    };
+  };
+}
+
+/**
+ * Client IP as seen by the trusted proxy
+ *
+ * X-Real-IP (set by Vercel), else the last X-Forwarded-For hop (appended by the
+ * proxy in front of us), else the socket address. Earlier X-Forwarded-For hops
+ * come from the client and can be anything, so they are never used.
+ */
+export function getClientIp(req: IncomingMessage): string {
+  const realIp = getHeader(req, 'x-real-ip');
+  if (realIp) return realIp.trim();
+
+  const forwarded = getHeader(req, 'x-forwarded-for');
+  const lastHop = forwarded?.split(',').pop()?.trim();
+  if (lastHop) return lastHop;
+
+  return req.socket?.remoteAddress || 'unknown';
+}
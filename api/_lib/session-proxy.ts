@@ -0,0 +1,182 @@
+import type { ServerResponse } from 'http';
+import { ApiRequest, HttpError, readJsonBody, sendJson } from './http.js';
+import { resolveIdentity } from './identity.js';
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{1,128}$/;
+const MAX_CONVERSATIONS = 200;
+const MAX_TEXT_LENGTH = 8000;
+
+interface ConversationMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+type SessionProxyRequest =
+  | { action: 'createSession'; sessionId: string }
+  | { action: 'injectBatchEvents'; sessionId: string; conversations: ConversationMessage[] };
+
+function getConfig() {
+  return {
+    baseURL: (process.env.SESSION_API_URL || '').replace(/\/$/, ''),
+    apiKey: process.env.SESSION_API_KEY || '',
+    appName: process.env.ADK_APP_NAME || process.env.VITE_ADK_APP_NAME || 'rag_agent',
+  };
+}
+
+function upstreamHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+function isConversationMessage(value: unknown): value is ConversationMessage {
+  if (!value || typeof value !== 'object') return false;
+  const { role, text } = value as Record<string, unknown>;
+  return (role === 'user' || role === 'model')
+    && typeof text === 'string'
+    && text.length <= MAX_TEXT_LENGTH;
+}
+
+function parseRequest(body: unknown): SessionProxyRequest {
+  if (!body || typeof body !== 'object') {
+    throw new HttpError('Invalid request body', 400);
+  }
+
+  const { action, sessionId, conversations } = body as Record<string, unknown>;
+
+  if (typeof sessionId !== 'string' || !SESSION_ID_PATTERN.test(sessionId)) {
+    throw new HttpError('Invalid sessionId', 400);
+  }
+
+  if (action === 'createSession') {
+    return { action, sessionId };
+  }
+
+  if (action === 'injectBatchEvents') {
+    if (!Array.isArray(conversations)
+      || conversations.length > MAX_CONVERSATIONS
+      || !conversations.every(isConversationMessage)) {
+      throw new HttpError('Invalid conversations', 400);
+    }
+    return { action, sessionId, conversations };
+  }
+
+  throw new HttpError('Unknown action', 400);
+}
+
+/**
+ * Look up the session owner upstream
+ * Returns null when the session does not exist yet
+ */
+async function fetchSessionOwner(sessionId: string): Promise<string | null> {
+  const { baseURL, apiKey, appName } = getConfig();
+
+  const response = await fetch(
+    `${baseURL}/${sessionId}?app_name=${encodeURIComponent(appName)}`,
+    { headers: upstreamHeaders(apiKey) }
+  );
+
+  if (response.status === 404) return null;
+
+  if (!response.ok) {
+    throw new HttpError(`Session lookup failed: ${response.status}`, 502);
+  }
+
+  const data = await response.json() as { user_id?: string };
+  return data.user_id ?? null;
+}
+
+/**
+ * Reject writes to sessions that belong to another user
+ * Returns whether the session already exists
+ */
+async function assertOwnership(sessionId: string, userId: string): Promise<boolean> {
+  const owner = await fetchSessionOwner(sessionId);
+  if (owner !== null && owner !== userId) {
+    throw new HttpError('Session belongs to another user', 403);
+  }
+  return owner !== null;
+}
+
+async function forward(path: string, payload: object): Promise<{ status: number; body: unknown }> {
+  const { baseURL, apiKey, appName } = getConfig();
+
+  const response = await fetch(`${baseURL}${path}`, {
+    method: 'POST',
+    headers: upstreamHeaders(apiKey),
+    body: JSON.stringify({ ...payload, app_name: appName }),
+  });
+
+  const text = await response.text();
+  let body: unknown;
+  try {
+    body = text ? JSON.parse(text) : {};
+  } catch {
+    body = { error: text };
+  }
+
+  return { status: response.status, body };
+}
+
+/**
+ * Session API proxy
+ *
+ * Forwards createSession / injectBatchEvents to the Session API with the
+ * SESSION_API_KEY held server-side. The user_id is the caller's signed
+ * identity, and writes to sessions owned by another user are rejected.
+ */
+export async function handleSessionProxy(req: ApiRequest, res: ServerResponse): Promise<void> {
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Method not allowed' });
+    return;
+  }
+
+  if (!getConfig().baseURL) {
+    sendJson(res, 503, { error: 'Session API not configured' });
+    return;
+  }
+
+  try {
+    const body = await readJsonBody(req).catch(() => {
+      throw new HttpError('Invalid JSON body', 400);
+    });
+    const request = parseRequest(body);
+
+    const userId = resolveIdentity(req, res);
+
+    const sessionExists = await assertOwnership(request.sessionId, userId);
+
+    if (request.action === 'createSession') {
+      if (sessionExists) {
+        sendJson(res, 200, { session_id: request.sessionId, user_id: userId });
+        return;
+      }
+      const result = await forward('', { user_id: userId, session_id: request.sessionId });
+      sendJson(res, result.status, result.body);
+      return;
+    }
+
+    if (!sessionExists) {
+      const created = await forward('', { user_id: userId, session_id: request.sessionId });
+      if (created.status >= 400) {
+        sendJson(res, created.status, created.body);
+        return;
+      }
+    }
+
+    const result = await forward(`/${request.sessionId}/events/batch`, {
+      user_id: userId,
+      conversations: request.conversations,
+    });
+    sendJson(res, result.status, result.body);
+  } catch (error) {
+    if (error instanceof HttpError) {
+      sendJson(res, error.status, { error: error.message });
+      return;
+    }
+    console.error('[SessionProxy] Error:', error);
+    sendJson(res, 502, { error: 'Session API request failed' });
+  }
+}
@@ -0,0 +1,272 @@
+import { randomUUID } from 'crypto';
+import type { ServerResponse } from 'http';
+import { AccessToken, RoomAgentDispatch, RoomConfiguration, TrackSource } from 'livekit-server-sdk';
+import { ApiHandler, ApiRequest, HttpError, readJsonBody, sendJson } from './http.js';
+import { resolveIdentity, sign, verifySignature } from './identity.js';
+import { MetadataIssue, validateClientMetadata } from './metadata.js';
+import { isOriginAllowed, setCorsHeaders } from './origin.js';
+import { createRateLimiter, getClientIp, RateLimitStore } from './rate-limit.js';
+
+const AGENT_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,64}$/;
+const DEFAULT_TOKEN_TTL = '10m';
+const DEFAULT_ROOM_GRANT_TTL_SECONDS = 3600;  // rejoin window from the last token issued for the room
+const DEFAULT_RATE_LIMIT = 10;          // tokens per IP per window
+const DEFAULT_RATE_LIMIT_WINDOW_MS = 60_000;
+
+interface TokenRequestBody {
+  metadata?: unknown;
+  agentName?: unknown;
+  rejoin?: unknown;
+}
+
+export interface TokenHandlerOptions {
+  rateLimitStore?: RateLimitStore;
+  rateLimit?: number;
+  rateLimitWindowMs?: number;
+}
+
+/**
+ * 400 with the validation issues attached so the client can show them
+ */
+class MetadataError extends HttpError {
+  code: string;
+  issues: MetadataIssue[];
+
+  constructor(code: string, issues: MetadataIssue[]) {
+    super(code === 'metadata_too_large' ? 'Metadata too large' : 'Invalid metadata', 400);
+    this.name = 'MetadataError';
+    this.code = code;
+    this.issues = issues;
+  }
+}
+
+function getRoomPrefix(): string {
+  return process.env.ROOM_PREFIX || process.env.VITE_ROOM_PREFIX || 'avatar';
+}
+
+/**
+ * Room names follow the `{ROOM_PREFIX}-{8 chars}` scheme and are always server-chosen
+ */
+function generateRoomName(): string {
+  return `${getRoomPrefix()}-${randomUUID().substring(0, 8)}`;
+}
+
+function getRoomGrantTtlSeconds(): number {
+  return Number(process.env.ROOM_GRANT_TTL_SECONDS) || DEFAULT_ROOM_GRANT_TTL_SECONDS;
+}
+
+/**
+ * Room grants let a participant rejoin the room they were issued, and no other,
+ * until `{expiresAt}` (unix seconds). Every rejoin returns a fresh grant.
+ */
+function signRoomGrant(room: string, identity: string): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + getRoomGrantTtlSeconds();
+  return `${expiresAt}.${sign(`room:${room}:${identity}:${expiresAt}`)}`;
+}
+
+function isRoomGrantValid(room: string, identity: string, grant: string): boolean {
+  const separator = grant.indexOf('.');
+  const expiresAt = grant.substring(0, separator);
+  if (separator <= 0 || !/^\d+$/.test(expiresAt)) return false;
+  if (Number(expiresAt) * 1000 <= Date.now()) return false;
+  return verifySignature(`room:${room}:${identity}:${expiresAt}`, grant.substring(separator + 1));
+}
+
+/**
+ * Resolve the room for a rejoin request, or throw if the grant does not match or has expired
+ */
+function resolveRejoinRoom(rejoin: unknown, identity: string): string {
+  if (!rejoin || typeof rejoin !== 'object') {
+    throw new HttpError('Invalid rejoin request', 400);
+  }
+
+  const { room, grant } = rejoin as Record<string, unknown>;
+  const escapedPrefix = getRoomPrefix().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const roomPattern = new RegExp(`^${escapedPrefix}-[0-9a-f]{8}$`);
+
+  if (typeof room !== 'string' || !roomPattern.test(room) || typeof grant !== 'string'
+    || !isRoomGrantValid(room, identity, grant)) {
+    throw new HttpError('Invalid room grant', 403);
+  }
+
+  return room;
+}
+
+/**
+ * Agent names this deployment may dispatch
+ * LIVEKIT_AGENT_NAMES is a comma-separated allowlist; LIVEKIT_AGENT_NAME is the default
+ */
+function getAgentConfig() {
+  const defaultAgent = process.env.LIVEKIT_AGENT_NAME || '';
+  const allowed = (process.env.LIVEKIT_AGENT_NAMES || '')
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  if (defaultAgent && !allowed.includes(defaultAgent)) {
+    allowed.push(defaultAgent);
+  }
+
+  return { defaultAgent, allowed };
+}
+
+/**
+ * Pick the agent to dispatch for this request
+ * Returns '' when no agent is configured (rooms rely on automatic dispatch)
+ */
+function resolveAgentName(requested: unknown): string {
+  const { defaultAgent, allowed } = getAgentConfig();
+
+  if (requested === undefined || requested === null || requested === '') {
+    return defaultAgent;
+  }
+
+  if (typeof requested !== 'string' || !AGENT_NAME_PATTERN.test(requested)) {
+    throw new HttpError('Invalid agentName', 400);
+  }
+
+  if (!allowed.includes(requested)) {
+    throw new HttpError(`Agent "${requested}" is not available`, 400);
+  }
+
+  return requested;
+}
+
+/**
+ * Create the LiveKit token endpoint
+ *
+ * - Only allowlisted origins may call it (CORS echoes the origin, never `*`)
+ * - Per-IP rate limiting of new rooms with a pluggable store (in-memory by default)
+ * - The room name is generated here and the identity comes from the signed cookie
+ * - A signed, expiring room grant (ROOM_GRANT_TTL_SECONDS) lets the same identity
+ *   rejoin that room with a fresh token
+ * - ClientMetadata is validated and size-checked before it goes into the JWT
+ * - Tokens are short-lived (LIVEKIT_TOKEN_TTL) and may only publish the microphone and data
+ * - When an agent name is configured or requested, a room configuration with
+ *   explicit agent dispatch is embedded (client metadata becomes dispatch metadata)
+ * - The ADK sessionId (if any) becomes room metadata for the webhook lifecycle log
+ */
+export function createTokenHandler(options: TokenHandlerOptions = {}): ApiHandler {
+  // Created on first request so env loaded after import (dotenv in dev) is honored
+  let rateLimit: ReturnType<typeof createRateLimiter> | null = null;
+
+  return async (req, res) => {
+    rateLimit ??= createRateLimiter({
+      limit: options.rateLimit ?? (Number(process.env.TOKEN_RATE_LIMIT) || DEFAULT_RATE_LIMIT),
+      windowMs: options.rateLimitWindowMs ?? DEFAULT_RATE_LIMIT_WINDOW_MS,
+      store: options.rateLimitStore,
+    });
+
+    setCorsHeaders(req, res, 'POST, OPTIONS');
+
+    if (!isOriginAllowed(req)) {
+      sendJson(res, 403, { error: 'Origin not allowed' });
+      return;
+    }
+
+    if (req.method === 'OPTIONS') {
+      res.statusCode = 204;
+      res.end();
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const limitRequest = rateLimit;
+    const checkRateLimit = async () => {
+      const limit = await limitRequest(`token:${getClientIp(req)}`);
+      if (!limit.allowed) {
+        res.setHeader('Retry-After', String(limit.retryAfterSeconds));
+        throw new HttpError('Too many token requests', 429);
+      }
+    };
+
+    try {
+      await issueToken(req, res, checkRateLimit);
+    } catch (error) {
+      if (error instanceof MetadataError) {
+        sendJson(res, error.status, { error: error.message, code: error.code, details: error.issues });
+        return;
+      }
+      if (error instanceof HttpError) {
+        sendJson(res, error.status, { error: error.message });
+        return;
+      }
+      console.error('[Token] Generation error:', error);
+      sendJson(res, 500, { error: 'Failed to generate token' });
+    }
+  };
+}
+
+async function issueToken(req: ApiRequest, res: ServerResponse, checkRateLimit: () => Promise<void>): Promise<void> {
+  const body = await readJsonBody<TokenRequestBody>(req).catch(() => {
+    throw new HttpError('Invalid JSON body', 400);
+  });
+  const { metadata, agentName: requestedAgent, rejoin } = body ?? {};
+
+  const apiKey = process.env.LIVEKIT_API_KEY;
+  const apiSecret = process.env.LIVEKIT_API_SECRET;
+
+  if (!apiKey || !apiSecret) {
+    throw new HttpError('LiveKit credentials not configured', 500);
+  }
+
+  const identity = resolveIdentity(req, res);
+
+  const validation = validateClientMetadata(metadata);
+  if (!validation.ok) {
+    throw new MetadataError(validation.code, validation.issues);
+  }
+
+  // Rejoin keeps the original room (e.g. after a dropped connection); otherwise a new room.
+  // Only new rooms count against the per-IP limit - a valid grant must not be locked out of its room.
+  const room = rejoin ? resolveRejoinRoom(rejoin, identity) : generateRoomName();
+  if (!rejoin) await checkRateLimit();
+  const agentName = resolveAgentName(requestedAgent);
+  const serializedMetadata = validation.serialized;
+  const ttl = process.env.LIVEKIT_TOKEN_TTL || DEFAULT_TOKEN_TTL;
+
+  const token = new AccessToken(apiKey, apiSecret, { identity, ttl });
+
+  token.addGrant({
+    room,
+    roomJoin: true,
+    canSubscribe: true,
+    canPublish: true,
+    canPublishData: true,
+    canPublishSources: [TrackSource.MICROPHONE],
+  });
+
+  token.metadata = serializedMetadata;
+
+  // Room metadata is on every webhook event (room_finished too) - links the room to the ADK session
+  const { sessionId } = validation.value;
+  if (agentName || sessionId) {
+    token.roomConfig = new RoomConfiguration({
+      ...(sessionId ? { metadata: JSON.stringify({ sessionId }) } : {}),
+      ...(agentName ? {
+        agents: [
+          new RoomAgentDispatch({
+            agentName,
+            metadata: serializedMetadata,
+          }),
+        ],
+      } : {}),
+    });
+  }
+
+  const jwt = await token.toJwt();
+
+  sendJson(res, 200, {
+    token: jwt,
+    room,
+    identity,
+    roomGrant: signRoomGrant(room, identity),
+    agentName: agentName || undefined,
+  });
+}
+
+export const handleTokenRequest = createTokenHandler();
@@ -0,0 +1,215 @@
+import { appendFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import type { ServerResponse } from 'http';
+import { WebhookReceiver, type WebhookEvent } from 'livekit-server-sdk';
+import { ApiHandler, ApiRequest, getHeader, HttpError, readRawBody, sendJson } from './http.js';
+
+export type LifecycleEventType =
+  | 'room_started'
+  | 'participant_joined'
+  | 'participant_left'
+  | 'room_finished';
+
+const LIFECYCLE_EVENTS: LifecycleEventType[] = [
+  'room_started',
+  'participant_joined',
+  'participant_left',
+  'room_finished',
+];
+
+// ParticipantInfo_Kind values (not re-exported by livekit-server-sdk)
+const PARTICIPANT_KINDS: readonly string[] = ['standard', 'ingress', 'egress', 'sip', 'agent'];
+
+/**
+ * Normalized room/session lifecycle record
+ */
+export interface LifecycleEvent {
+  id: string;
+  type: LifecycleEventType;
+  occurredAt: string;             // ISO timestamp from LiveKit
+  receivedAt: string;             // ISO timestamp when we received it
+  room: {
+    name: string;
+    sid: string;
+    startedAt?: string;
+    durationSeconds?: number;     // room_finished only
+  };
+  participant?: {
+    identity: string;
+    sid: string;
+    kind: string;
+    joinedAt?: string;
+    sessionSeconds?: number;      // participant_left only
+  };
+  adkSessionId?: string;          // ADK session linked via room (or participant) metadata
+}
+
+/**
+ * Destination for lifecycle events (file, database, analytics, ...)
+ */
+export interface LifecycleSink {
+  write(event: LifecycleEvent): Promise<void>;
+}
+
+/**
+ * Append each event as one JSON line
+ */
+export class JsonLinesFileSink implements LifecycleSink {
+  private filePath: string;
+  private ready: Promise<unknown> | null = null;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async write(event: LifecycleEvent): Promise<void> {
+    this.ready ??= mkdir(path.dirname(this.filePath), { recursive: true });
+    await this.ready;
+    await appendFile(this.filePath, JSON.stringify(event) + '\n', 'utf8');
+  }
+}
+
+function defaultSink(): LifecycleSink {
+  const filePath = process.env.LIVEKIT_WEBHOOK_LOG_PATH
+    || path.join(tmpdir(), 'livekit-lifecycle.jsonl');
+  return new JsonLinesFileSink(filePath);
+}
+
+function toIso(seconds?: bigint, milliseconds?: bigint): string | undefined {
+  if (milliseconds) return new Date(Number(milliseconds)).toISOString();
+  if (seconds) return new Date(Number(seconds) * 1000).toISOString();
+  return undefined;
+}
+
+function parseSessionId(metadata?: string): string | undefined {
+  if (!metadata) return undefined;
+  try {
+    const parsed = JSON.parse(metadata) as { sessionId?: unknown };
+    return typeof parsed.sessionId === 'string' ? parsed.sessionId : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Convert a LiveKit webhook event into a LifecycleEvent
+ * Returns null for events we do not record (tracks, egress, ...)
+ *
+ * The ADK sessionId comes from the room metadata set by the token endpoint, so
+ * every event (room_finished included) is linked on whichever instance receives it.
+ */
+export function normalizeWebhookEvent(event: WebhookEvent): LifecycleEvent | null {
+  const type = event.event as LifecycleEventType;
+  if (!LIFECYCLE_EVENTS.includes(type) || !event.room) return null;
+
+  const now = Date.now();
+  const occurredAtMs = event.createdAt ? Number(event.createdAt) * 1000 : now;
+  const roomStartedAt = toIso(event.room.creationTime, event.room.creationTimeMs);
+
+  const normalized: LifecycleEvent = {
+    id: event.id,
+    type,
+    occurredAt: new Date(occurredAtMs).toISOString(),
+    receivedAt: new Date(now).toISOString(),
+    room: {
+      name: event.room.name,
+      sid: event.room.sid,
+      startedAt: roomStartedAt,
+    },
+  };
+
+  if (event.participant) {
+    const joinedAt = toIso(event.participant.joinedAt, event.participant.joinedAtMs);
+    normalized.participant = {
+      identity: event.participant.identity,
+      sid: event.participant.sid,
+      kind: PARTICIPANT_KINDS[event.participant.kind] ?? 'unknown',
+      joinedAt,
+    };
+
+    if (type === 'participant_left' && joinedAt) {
+      normalized.participant.sessionSeconds =
+        Math.round((occurredAtMs - Date.parse(joinedAt)) / 1000);
+    }
+  }
+
+  if (type === 'room_finished' && roomStartedAt) {
+    normalized.room.durationSeconds = Math.round((occurredAtMs - Date.parse(roomStartedAt)) / 1000);
+  }
+
+  // Participant metadata: rooms created before the sessionId was in the room metadata
+  const adkSessionId = parseSessionId(event.room.metadata) ?? parseSessionId(event.participant?.metadata);
+  if (adkSessionId) {
+    normalized.adkSessionId = adkSessionId;
+  }
+
+  return normalized;
+}
+
+/**
+ * Raw body is required for signature verification (sha256 of the exact bytes)
+ */
+async function readWebhookBody(req: ApiRequest): Promise<string> {
+  if (typeof req.body === 'string') return req.body;
+  if (Buffer.isBuffer(req.body)) return req.body.toString('utf8');
+  if (req.body !== undefined) {
+    throw new HttpError('Raw body unavailable (request body was already parsed)', 400);
+  }
+  return readRawBody(req);
+}
+
+export interface WebhookHandlerOptions {
+  sink?: LifecycleSink;
+}
+
+/**
+ * Create the LiveKit webhook receiver
+ *
+ * Verifies the signed Authorization header with LIVEKIT_API_KEY/SECRET,
+ * normalizes room/participant lifecycle events and writes them to the sink
+ * (JSON lines file by default).
+ */
+export function createWebhookHandler(options: WebhookHandlerOptions = {}): ApiHandler {
+  let sink = options.sink ?? null;
+
+  return async (req: ApiRequest, res: ServerResponse) => {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: 'Method not allowed' });
+      return;
+    }
+
+    const apiKey = process.env.LIVEKIT_API_KEY;
+    const apiSecret = process.env.LIVEKIT_API_SECRET;
+    if (!apiKey || !apiSecret) {
+      sendJson(res, 500, { error: 'LiveKit credentials not configured' });
+      return;
+    }
+
+    let event: WebhookEvent;
+    try {
+      const body = await readWebhookBody(req);
+      const receiver = new WebhookReceiver(apiKey, apiSecret);
+      event = await receiver.receive(body, getHeader(req, 'authorization'));
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 401;
+      console.warn('[Webhook] Rejected event:', error instanceof Error ? error.message : error);
+      sendJson(res, status, { error: 'Invalid webhook' });
+      return;
+    }
+
+    try {
+      const lifecycleEvent = normalizeWebhookEvent(event);
+      if (lifecycleEvent) {
+        sink ??= defaultSink();
+        await sink.write(lifecycleEvent);
+      }
+      sendJson(res, 200, { ok: true });
+    } catch (error) {
+      console.error('[Webhook] Failed to record event:', error);
+      sendJson(res, 500, { error: 'Failed to record event' });
+    }
+  };
+}
+
+export const handleLiveKitWebhook = createWebhookHandler();
@@ -0,0 +1,9 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleADKProxy } from './_lib/adk-proxy.js';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  await handleADKProxy(req, res);
+}
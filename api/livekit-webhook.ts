@@ -0,0 +1,9 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleLiveKitWebhook } from './_lib/webhook.js';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  await handleLiveKitWebhook(req, res);
+}
@@ -0,0 +1,9 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleSessionProxy } from './_lib/session-proxy.js';
+
+export default async function handler(
+  req: VercelRequest,
+  res: VercelResponse
+) {
+  await handleSessionProxy(req, res);
+}
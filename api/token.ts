@@ -1,55 +1,9 @@
-import { AccessToken } from 'livekit-server-sdk';
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { handleTokenRequest } from './_lib/token.js';
 
 export default async function handler(
   req: VercelRequest,
   res: VercelResponse
 ) {
-  // CORS headers
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-  if (req.method === 'OPTIONS') {
-    return res.status(200).end();
-  }
-
-  if (req.method !== 'POST') {
-    return res.status(405).json({ error: 'Method not allowed' });
-  }
-
-  try {
-    const { room, identity, metadata } = req.body;
-
-    if (!room || !identity) {
-      return res.status(400).json({ error: 'Missing room or identity' });
-    }
-
-    const apiKey = process.env.LIVEKIT_API_KEY;
-    const apiSecret = process.env.LIVEKIT_API_SECRET;
-
-    if (!apiKey || !apiSecret) {
-      return res.status(500).json({ error: 'LiveKit credentials not configured' });
-    }
-
-    const token = new AccessToken(apiKey, apiSecret, { identity });
-
-    token.addGrant({
-      room,
-      roomJoin: true,
-      canPublish: true,
-      canSubscribe: true,
-    });
-
-    if (metadata) {
-      token.metadata = JSON.stringify(metadata);
-    }
-
-    const jwt = await token.toJwt();
-
-    return res.status(200).json({ token: jwt });
-  } catch (error) {
-    console.error('Token generation error:', error);
-    return res.status(500).json({ error: 'Failed to generate token' });
-  }
+  await handleTokenRequest(req, res);
 }
@@ -0,0 +1,346 @@
+import type { ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { ApiHandler, ApiRequest, HttpError, readJsonBody, sendJson } from '../../api/_lib/http.js';
+import { FakeADKOptions, FakeReply } from './options.js';
+
+export interface FakeSessionEvent {
+  author: 'user' | 'model';
+  text: string;
+  timestamp: number;
+  source: 'run' | 'batch';
+}
+
+export interface FakeSession {
+  id: string;
+  appName: string;
+  userId: string;
+  events: FakeSessionEvent[];
+  lastUpdateTime: number;
+}
+
+export interface FakeADK {
+  /** ADK server: /apps/{app}/users/{user}/sessions/{id}, /run_sse */
+  adk: ApiHandler;
+  /** Session API: /, /{id}, /{id}/events/batch */
+  sessionApi: ApiHandler;
+  sessions: Map<string, FakeSession>;
+  reset: () => void;
+}
+
+/**
+ * Per-message fault injection, written anywhere in the user text:
+ * - [[fail:503]]     answer /run_sse with that HTTP status
+ * - [[drop:3]]       cut the connection after 3 partial events
+ * - [[error]]        send an ADK error event instead of the final event
+ * - [[latency:2000]] override the first-event delay
+ */
+interface Directives {
+  failStatus?: number;
+  dropAfter?: number;
+  errorEvent: boolean;
+  latencyMs?: number;
+}
+
+const DIRECTIVE_PATTERN = /\[\[(fail|drop|error|latency)(?::(\d+))?\]\]/g;
+
+const SESSION_PATH = /^\/apps\/([^/]+)\/users\/([^/]+)\/sessions\/([^/]+)$/;
+
+function parseDirectives(text: string): { text: string; directives: Directives } {
+  const directives: Directives = { errorEvent: false };
+
+  const stripped = text.replace(DIRECTIVE_PATTERN, (_, name: string, value?: string) => {
+    const number = value !== undefined ? Number(value) : undefined;
+    if (name === 'fail') directives.failStatus = number ?? 500;
+    if (name === 'drop') directives.dropAfter = number ?? 1;
+    if (name === 'error') directives.errorEvent = true;
+    if (name === 'latency') directives.latencyMs = number;
+    return '';
+  });
+
+  return { text: stripped.trim(), directives };
+}
+
+function pickReply(replies: FakeReply[], input: string): FakeReply {
+  const lowered = input.toLowerCase();
+  const reply = replies.find((candidate) => candidate.match && lowered.includes(candidate.match.toLowerCase()))
+    ?? replies.find((candidate) => !candidate.match)
+    ?? { text: input };
+
+  return { ...reply, text: reply.text.split('{input}').join(input) };
+}
+
+/**
+ * Split text into deltas of N words, keeping whitespace so deltas concatenate back
+ */
+function splitIntoChunks(text: string, wordsPerChunk: number): string[] {
+  const words = text.match(/\S+\s*/g) ?? [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += wordsPerChunk) {
+    chunks.push(words.slice(i, i + wordsPerChunk).join(''));
+  }
+  return chunks;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function requestPath(req: ApiRequest): URL {
+  return new URL(req.url || '/', 'http://fake-adk.local');
+}
+
+/**
+ * In-memory stand-in for the ADK server and the Session API
+ *
+ * Both handlers share one session store (keyed by app + session id), so
+ * conversations injected through the Session API show up in ADK sessions
+ * the same way they do against the real backend.
+ */
+export function createFakeADK(options: FakeADKOptions): FakeADK {
+  const sessions = new Map<string, FakeSession>();
+
+  const sessionKey = (appName: string, sessionId: string) => `${appName}/${sessionId}`;
+
+  function upsertSession(appName: string, userId: string, sessionId: string): FakeSession {
+    const existing = sessions.get(sessionKey(appName, sessionId));
+    if (existing) {
+      if (existing.userId !== userId) {
+        throw new HttpError('Session belongs to another user', 409);
+      }
+      return existing;
+    }
+
+    const session: FakeSession = { id: sessionId, appName, userId, events: [], lastUpdateTime: Date.now() / 1000 };
+    sessions.set(sessionKey(appName, sessionId), session);
+    console.log(`[FakeADK] Session created: ${appName}/${userId}/${sessionId}`);
+    return session;
+  }
+
+  function appendEvent(session: FakeSession, event: Omit<FakeSessionEvent, 'timestamp'>): void {
+    const timestamp = Date.now() / 1000;
+    session.events.push({ ...event, timestamp });
+    session.lastUpdateTime = timestamp;
+  }
+
+  function toADKSession(session: FakeSession) {
+    return {
+      id: session.id,
+      appName: session.appName,
+      userId: session.userId,
+      state: {},
+      events: session.events.map((event) => ({
+        author: event.author,
+        content: { role: event.author, parts: [{ text: event.text }] },
+        timestamp: event.timestamp,
+      })),
+      lastUpdateTime: session.lastUpdateTime,
+    };
+  }
+
+  async function runSSE(req: ApiRequest, res: ServerResponse): Promise<void> {
+    const body = await readJsonBody<{
+      appName?: string;
+      userId?: string;
+      sessionId?: string;
+      newMessage?: { parts?: { text?: string }[] };
+      streaming?: boolean;
+    }>(req);
+
+    const session = sessions.get(sessionKey(body.appName || '', body.sessionId || ''));
+    if (!session || session.userId !== body.userId) {
+      throw new HttpError('Session not found', 404);
+    }
+
+    const rawText = (body.newMessage?.parts ?? []).map((part) => part.text ?? '').join('');
+    const { text: input, directives } = parseDirectives(rawText);
+
+    const failStatus = directives.failStatus ?? options.faults.run;
+    if (failStatus) {
+      throw new HttpError('Injected failure', failStatus);
+    }
+
+    appendEvent(session, { author: 'user', text: input, source: 'run' });
+
+    let closed = false;
+    res.on('close', () => { closed = true; });
+
+    res.statusCode = 200;
+    res.setHeader('Content-Type', 'text/event-stream; charset=utf-8');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.flushHeaders();
+
+    const invocationId = `e-${randomUUID()}`;
+    const send = (event: Record<string, unknown>) => {
+      res.write(`data: ${JSON.stringify({
+        id: randomUUID(),
+        invocationId,
+        author: session.appName,
+        timestamp: Date.now() / 1000,
+        ...event,
+      })}\n\n`);
+    };
+
+    const reply = pickReply(options.replies, input);
+
+    await sleep(directives.latencyMs ?? options.latencyMs);
+
+    for (const call of reply.functionCalls ?? []) {
+      if (closed) return;
+      const id = `adk-${randomUUID()}`;
+      send({ content: { role: 'model', parts: [{ functionCall: { id, name: call.name, args: call.args ?? {} } }] } });
+      await sleep(options.chunkDelayMs);
+      send({ content: { role: 'user', parts: [{ functionResponse: { id, name: call.name, response: call.response ?? {} } }] } });
+      await sleep(options.chunkDelayMs);
+    }
+
+    if (body.streaming !== false) {
+      const chunks = splitIntoChunks(reply.text, options.wordsPerChunk);
+      for (let i = 0; i < chunks.length; i++) {
+        if (closed) return;
+        if (directives.dropAfter !== undefined && i >= directives.dropAfter) {
+          console.log(`[FakeADK] Dropping stream after ${i} partial events (injected)`);
+          res.destroy();
+          return;
+        }
+        send({ content: { role: 'model', parts: [{ text: chunks[i] }] }, partial: true });
+        await sleep(options.chunkDelayMs);
+      }
+    }
+
+    if (closed) return;
+
+    if (directives.errorEvent) {
+      send({ errorCode: 'INTERNAL', errorMessage: 'Injected error' });
+      res.end();
+      return;
+    }
+
+    send({ content: { role: 'model', parts: [{ text: reply.text }] }, partial: false, turnComplete: true });
+    appendEvent(session, { author: 'model', text: reply.text, source: 'run' });
+    res.end();
+  }
+
+  const adk: ApiHandler = async (req, res) => {
+    try {
+      const { pathname } = requestPath(req);
+
+      if (req.method === 'POST' && pathname === '/run_sse') {
+        await runSSE(req, res);
+        return;
+      }
+
+      const match = pathname.match(SESSION_PATH);
+      if (match) {
+        const [, appName, userId, sessionId] = match.map(decodeURIComponent);
+
+        if (req.method === 'POST') {
+          if (options.faults.createSession) {
+            throw new HttpError('Injected failure', options.faults.createSession);
+          }
+          sendJson(res, 200, toADKSession(upsertSession(appName, userId, sessionId)));
+          return;
+        }
+
+        const session = sessions.get(sessionKey(appName, sessionId));
+        if (req.method === 'GET' && session && session.userId === userId) {
+          sendJson(res, 200, toADKSession(session));
+          return;
+        }
+        if (req.method === 'GET') {
+          throw new HttpError('Session not found', 404);
+        }
+      }
+
+      throw new HttpError('Not found', 404);
+    } catch (error) {
+      respondWithError(res, error);
+    }
+  };
+
+  const sessionApi: ApiHandler = async (req, res) => {
+    try {
+      if (options.faults.sessionApi) {
+        throw new HttpError('Injected failure', options.faults.sessionApi);
+      }
+
+      const url = requestPath(req);
+      const [sessionId, ...rest] = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+      // POST / - create session
+      if (req.method === 'POST' && !sessionId) {
+        const body = await readJsonBody<{ user_id?: string; session_id?: string; app_name?: string }>(req);
+        if (!body.user_id || !body.session_id || !body.app_name) {
+          throw new HttpError('user_id, session_id and app_name are required', 400);
+        }
+        const session = upsertSession(body.app_name, body.user_id, body.session_id);
+        sendJson(res, 200, { session_id: session.id, user_id: session.userId, app_name: session.appName });
+        return;
+      }
+
+      // GET /{id}?app_name= - session lookup
+      if (req.method === 'GET' && sessionId && rest.length === 0) {
+        const session = sessions.get(sessionKey(url.searchParams.get('app_name') || '', sessionId));
+        if (!session) {
+          throw new HttpError('Session not found', 404);
+        }
+        sendJson(res, 200, {
+          session_id: session.id,
+          user_id: session.userId,
+          app_name: session.appName,
+          events: session.events,
+        });
+        return;
+      }
+
+      // POST /{id}/events/batch - inject conversation history
+      if (req.method === 'POST' && sessionId && rest.join('/') === 'events/batch') {
+        const body = await readJsonBody<{
+          user_id?: string;
+          app_name?: string;
+          conversations?: { role: 'user' | 'model'; text: string }[];
+        }>(req);
+        const session = sessions.get(sessionKey(body.app_name || '', sessionId));
+        if (!session) {
+          throw new HttpError('Session not found', 404);
+        }
+        if (session.userId !== body.user_id) {
+          throw new HttpError('Session belongs to another user', 403);
+        }
+        const conversations = body.conversations ?? [];
+        for (const { role, text } of conversations) {
+          appendEvent(session, { author: role, text, source: 'batch' });
+        }
+        sendJson(res, 200, { session_id: session.id, inserted: conversations.length });
+        return;
+      }
+
+      throw new HttpError('Not found', 404);
+    } catch (error) {
+      respondWithError(res, error);
+    }
+  };
+
+  return {
+    adk,
+    sessionApi,
+    sessions,
+    reset: () => sessions.clear(),
+  };
+}
+
+function respondWithError(res: ServerResponse, error: unknown): void {
+  if (res.headersSent) {
+    res.end();
+    return;
+  }
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { detail: error.message });
+    return;
+  }
+  if (error instanceof SyntaxError) {
+    sendJson(res, 400, { detail: 'Invalid JSON body' });
+    return;
+  }
+  console.error('[FakeADK] Error:', error);
+  sendJson(res, 500, { detail: 'Internal error' });
+}
@@ -0,0 +1,90 @@
+import fs from 'fs';
+
+export interface FakeFunctionCall {
+  name: string;
+  args?: Record<string, unknown>;
+  response?: Record<string, unknown>;
+}
+
+/**
+ * Scripted reply, picked when `match` appears in the user message
+ * (case-insensitive). A reply without `match` is the fallback.
+ */
+export interface FakeReply {
+  match?: string;
+  text: string;
+  functionCalls?: FakeFunctionCall[];
+}
+
+export type FakeEndpoint = 'createSession' | 'run' | 'sessionApi';
+
+export interface FakeADKOptions {
+  replies: FakeReply[];
+  /** Delay before the first SSE event */
+  latencyMs: number;
+  /** Delay between SSE events */
+  chunkDelayMs: number;
+  /** Words per partial event */
+  wordsPerChunk: number;
+  /** HTTP status forced on every request to an endpoint */
+  faults: Partial<Record<FakeEndpoint, number>>;
+}
+
+export const DEFAULT_REPLIES: FakeReply[] = [
+  {
+    match: 'weather',
+    text: 'It is **sunny** and 21°C in Seoul right now.',
+    functionCalls: [
+      { name: 'get_weather', args: { city: 'Seoul' }, response: { condition: 'sunny', temperatureC: 21 } },
+    ],
+  },
+  {
+    match: 'hello',
+    text: 'Hello! I am the fake ADK agent. Ask me about the weather, or type anything and I will echo it back.',
+  },
+  {
+    text: 'You said: "{input}". This reply comes from the local fake ADK server.',
+  },
+];
+
+function readNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Parse FAKE_ADK_FAULTS, e.g. "run:503,createSession:500"
+ */
+function parseFaults(value: string | undefined): FakeADKOptions['faults'] {
+  const faults: FakeADKOptions['faults'] = {};
+  for (const entry of (value || '').split(',')) {
+    const [endpoint, status] = entry.split(':').map((part) => part.trim());
+    if ((endpoint === 'createSession' || endpoint === 'run' || endpoint === 'sessionApi') && Number(status) >= 400) {
+      faults[endpoint] = Number(status);
+    }
+  }
+  return faults;
+}
+
+function loadReplies(scriptPath: string | undefined): FakeReply[] {
+  if (!scriptPath) return DEFAULT_REPLIES;
+
+  const replies = JSON.parse(fs.readFileSync(scriptPath, 'utf8')) as unknown;
+  if (!Array.isArray(replies) || !replies.every((reply) => typeof reply?.text === 'string')) {
+    throw new Error(`FAKE_ADK_SCRIPT must be a JSON array of { match?, text, functionCalls? }: ${scriptPath}`);
+  }
+  return replies as FakeReply[];
+}
+
+/**
+ * Build fake server options from FAKE_ADK_* environment variables
+ */
+export function loadFakeADKOptions(env: NodeJS.ProcessEnv = process.env): FakeADKOptions {
+  return {
+    replies: loadReplies(env.FAKE_ADK_SCRIPT),
+    latencyMs: readNumber(env.FAKE_ADK_LATENCY_MS, 300),
+    chunkDelayMs: readNumber(env.FAKE_ADK_CHUNK_DELAY_MS, 60),
+    wordsPerChunk: Math.max(1, readNumber(env.FAKE_ADK_WORDS_PER_CHUNK, 2)),
+    faults: parseFaults(env.FAKE_ADK_FAULTS),
+  };
+}
@@ -0,0 +1,43 @@
+import http from 'http';
+import dotenv from 'dotenv';
+import { sendJson } from '../../api/_lib/http.js';
+import { createFakeADK } from './fake-adk.js';
+import { loadFakeADKOptions } from './options.js';
+
+/**
+ * Standalone fake ADK + Session API server
+ *
+ *   npm run fake-adk
+ *
+ * Then point the proxies at it:
+ *   ADK_URL=http://localhost:8787/adk
+ *   SESSION_API_URL=http://localhost:8787/session-api
+ */
+dotenv.config();
+
+const port = Number(process.env.FAKE_ADK_PORT) || 8787;
+const fake = createFakeADK(loadFakeADKOptions());
+
+const routes = [
+  { prefix: '/adk', handler: fake.adk },
+  { prefix: '/session-api', handler: fake.sessionApi },
+];
+
+const server = http.createServer((req, res) => {
+  const url = req.url || '/';
+  const route = routes.find(({ prefix }) => url === prefix || url.startsWith(`${prefix}/`) || url.startsWith(`${prefix}?`));
+
+  if (!route) {
+    sendJson(res, 404, { detail: 'Not found' });
+    return;
+  }
+
+  // Same URL shape the handlers see behind the Vite middleware mount
+  req.url = url.slice(route.prefix.length) || '/';
+  route.handler(req, res);
+});
+
+server.listen(port, () => {
+  console.log(`[FakeADK] ADK:         http://localhost:${port}/adk`);
+  console.log(`[FakeADK] Session API: http://localhost:${port}/session-api`);
+});
@@ -0,0 +1,119 @@
+/**
+ * Unity build cache (registered by src/lib/unity/build-cache.ts)
+ *
+ * Build files are requested with ?v={content hash} (from /unity/builds.json) and
+ * cached per version in "unity-{build}-{hash}". Cached versions are served
+ * cache-first (so they load without the network); other versions of the same
+ * build are deleted once a new one is cached. builds.json itself is network-first
+ * with a cached copy, so a dropped connection still knows which version to ask for.
+ * The app shell (index.html, /assets) is not cached here.
+ *
+ * Messages from the page:
+ *   { type: 'precache-unity', build, hash, urls }  fetch missing files of that version
+ */
+const CACHE_PREFIX = 'unity-';
+const HASHES_CACHE = 'build-hashes';
+const HASHES_PATH = '/unity/builds.json';
+const BUILD_PATH = /^\/unity\/([^/]+)\/Build\//;
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+function cacheName(build, hash) {
+  return `${CACHE_PREFIX}${build}-${hash}`;
+}
+
+async function evictOtherVersions(build, hash) {
+  const current = cacheName(build, hash);
+  const names = await caches.keys();
+  await Promise.all(
+    names
+      .filter((name) => name.startsWith(`${CACHE_PREFIX}${build}-`) && name !== current)
+      .map((name) => {
+        console.log(`[UnityCache] Evicting ${name}`);
+        return caches.delete(name);
+      })
+  );
+}
+
+async function precache(build, hash, urls) {
+  const cache = await caches.open(cacheName(build, hash));
+  let fetched = 0;
+
+  // One at a time - these are large, and the chat screen is still in use
+  for (const url of urls) {
+    if (await cache.match(url)) continue;
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`${url}: HTTP ${response.status}`);
+    await cache.put(url, response);
+    fetched++;
+  }
+
+  await evictOtherVersions(build, hash);
+  console.log(`[UnityCache] ${build}@${hash} cached (${fetched} of ${urls.length} files fetched)`);
+}
+
+self.addEventListener('message', (event) => {
+  const { type, build, hash, urls } = event.data || {};
+  if (type !== 'precache-unity') return;
+
+  event.waitUntil(
+    precache(build, hash, urls).catch((error) => {
+      console.warn(`[UnityCache] Precache of ${build}@${hash} failed:`, error);
+    })
+  );
+});
+
+async function networkFirstHashes(request) {
+  const cache = await caches.open(HASHES_CACHE);
+  try {
+    const response = await fetch(request);
+    // Vite serves index.html for missing files - only keep real JSON
+    if (response.ok && response.headers.get('content-type')?.includes('json')) {
+      await cache.put(HASHES_PATH, response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await cache.match(HASHES_PATH);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname === HASHES_PATH) {
+    event.respondWith(networkFirstHashes(request));
+    return;
+  }
+
+  const match = url.pathname.match(BUILD_PATH);
+  const hash = url.searchParams.get('v');
+  if (!match || !hash) return;
+
+  const build = match[1];
+  event.respondWith((async () => {
+    const cache = await caches.open(cacheName(build, hash));
+    const cached = await cache.match(request);
+    if (cached) return cached;
+
+    // Not precached yet (avatar opened first): cache it on the way through
+    const response = await fetch(request);
+    if (response.ok) {
+      event.waitUntil(
+        cache.put(request, response.clone()).then(() => evictOtherVersions(build, hash))
+      );
+    }
+    return response;
+  })());
+});
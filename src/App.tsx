@@ -1,11 +1,16 @@
-import { useState, useCallback, useEffect } from 'react';
-import { isADKMode, ADK_USER_ID } from '@/lib/config';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { isADKMode, isMockMode, isReplayMode } from '@/lib/config';
 import { LiveKitProvider } from '@/lib/providers/LiveKitProvider';
 import { LiveKitSessionHandler, useLiveKitSession } from '@/lib/providers/LiveKitSessionHandler';
+import { MockLiveKitProvider, MockSessionHandler } from '@/lib/providers/MockSessionProvider';
+import { ReplaySessionHandler } from '@/lib/providers/ReplaySessionProvider';
 import { ChatView } from '@/pages/ChatView';
 import { AvatarView } from '@/pages/AvatarView';
+import { AgentUnavailableView } from '@/pages/AgentUnavailableView';
 import { useSessionStore } from '@/lib/store/session-store';
 import { useSessionIdStore } from '@/lib/store/session-id-store';
+import { useAvatarStore } from '@/lib/store/avatar-store';
+import { useAvatarManifest, useUnityBuildCache } from '@/lib/hooks';
 import { sessionAPIClient } from '@/lib/api/session-api';
 
 // Avatar 관련 이미지 프리로드
@@ -14,17 +19,41 @@ import avatarBackground from '@/assets/image-avatar-background-4x.png';
 
 type ScreenType = 'chat' | 'avatar';
 
+// Mock mode swaps LiveKit for the in-browser fake agent (same screens, no server)
+// Replay mode (?replay) plays a recorded session, also without a server
+const SessionProvider = isMockMode || isReplayMode ? MockLiveKitProvider : LiveKitProvider;
+const SessionHandler = isReplayMode ? ReplaySessionHandler : isMockMode ? MockSessionHandler : LiveKitSessionHandler;
+
 /**
  * App - Main application component
  *
  * Handles screen switching (chat ↔ avatar) and mode-based routing:
  * - ADK mode: ChatView uses ADK API, AvatarView uses LiveKit
  * - LiveKit mode: Both views use LiveKit
+ * - Mock mode: Same as LiveKit mode, backed by an in-browser fake agent
+ * - Replay mode (?replay): Same as LiveKit mode, playing back a recorded session
  */
 export function App() {
   const [screen, setScreen] = useState<ScreenType>('chat');
   const [conversationStarted, setConversationStarted] = useState(false);
   const [isAgentReady, setIsAgentReady] = useState(false);
+  // Bumped on "retry" to remount the provider (new token, new room, new agent dispatch)
+  const [sessionAttempt, setSessionAttempt] = useState(0);
+
+  useAvatarManifest();
+  useUnityBuildCache(screen === 'chat');
+
+  // The agent picks its voice from the token metadata - start a new session when the avatar changes
+  const avatarId = useAvatarStore((state) => state.avatarId);
+  const previousAvatarId = useRef(avatarId);
+  useEffect(() => {
+    if (avatarId === previousAvatarId.current) return;
+    previousAvatarId.current = avatarId;
+    console.log('[App] Avatar changed, starting a new session:', avatarId);
+    setConversationStarted(false);
+    setIsAgentReady(false);
+    setSessionAttempt((attempt) => attempt + 1);
+  }, [avatarId]);
 
   // 앱 마운트 시 Avatar 관련 이미지 프리로드
   useEffect(() => {
@@ -65,7 +94,7 @@ export function App() {
             });
 
             // Batch update to Session API
-            await sessionAPIClient.injectBatchEvents(sessionId, ADK_USER_ID, newMessages);
+            await sessionAPIClient.injectBatchEvents(sessionId, newMessages);
 
             // Update sync index
             setLastBatchSyncedIndex(messages.length);
@@ -84,6 +113,11 @@ export function App() {
     setIsAgentReady(false);         // Reset agent ready state
     setScreen('avatar');
   }, []);
+  const handleRetrySession = useCallback(() => {
+    setConversationStarted(false);
+    setIsAgentReady(false);
+    setSessionAttempt((attempt) => attempt + 1);
+  }, []);
   const handleBack = useCallback(() => {
     // For now, just switch to chat. Can be extended for navigation.
     handleSwitchToChat();
@@ -109,7 +143,7 @@ export function App() {
     // Avatar screen: LiveKit needed with audio enabled
     return (
       <div className="w-full max-w-[480px] mx-auto h-dvh max-h-[980px] bg-white overflow-hidden relative">
-        <LiveKitProvider onDisconnect={handleSwitchToChat}>
+        <LiveKitProvider key={sessionAttempt} onDisconnect={handleSwitchToChat}>
           <LiveKitSessionHandler enableAudio={true}>
             <AvatarViewWithSession
               onBack={handleBack}
@@ -118,6 +152,7 @@ export function App() {
               onConversationStart={() => setConversationStarted(true)}
               isAgentReady={isAgentReady}
               onAgentReady={() => setIsAgentReady(true)}
+              onRetrySession={handleRetrySession}
             />
           </LiveKitSessionHandler>
         </LiveKitProvider>
@@ -126,15 +161,15 @@ export function App() {
   }
 
   // ═══════════════════════════════════════════════════════════════════
-  // LiveKit Mode (Default)
+  // LiveKit Mode (Default) / Mock Mode
   // Audio playback only in avatar screen
   // ═══════════════════════════════════════════════════════════════════
   const enableAudioPlayback = screen === 'avatar';
 
   return (
     <div className="w-full max-w-[480px] mx-auto h-dvh max-h-[980px] bg-white overflow-hidden relative">
-      <LiveKitProvider onDisconnect={handleBack}>
-        <LiveKitSessionHandler enableAudio={enableAudioPlayback}>
+      <SessionProvider key={sessionAttempt} onDisconnect={handleBack}>
+        <SessionHandler enableAudio={enableAudioPlayback}>
           {screen === 'chat' ? (
             <ChatView
               mode="livekit"
@@ -149,10 +184,11 @@ export function App() {
               onConversationStart={() => setConversationStarted(true)}
               isAgentReady={isAgentReady}
               onAgentReady={() => setIsAgentReady(true)}
+              onRetrySession={handleRetrySession}
             />
           )}
-        </LiveKitSessionHandler>
-      </LiveKitProvider>
+        </SessionHandler>
+      </SessionProvider>
     </div>
   );
 }
@@ -167,6 +203,7 @@ function AvatarViewWithSession({
   onConversationStart,
   isAgentReady,
   onAgentReady,
+  onRetrySession,
 }: {
   onBack: () => void;
   onSwitchToChat: () => void;
@@ -174,8 +211,9 @@ function AvatarViewWithSession({
   onConversationStart: () => void;
   isAgentReady: boolean;
   onAgentReady: () => void;
+  onRetrySession: () => void;
 }) {
-  const { agentState, avatarMessage, userVolume, agentVolume } = useLiveKitSession();
+  const { agentState, avatarMessage, userVolume, agentVolume, agentRpc, agentUnavailableReason } = useLiveKitSession();
 
   // Agent가 listening 상태가 되면 isAgentReady 설정 (RPC는 AvatarView에서 isLoaded 체크 후 전송)
   useEffect(() => {
@@ -187,15 +225,28 @@ function AvatarViewWithSession({
   }, [agentState, conversationStarted, onAgentReady, onConversationStart]);
 
   return (
-    <AvatarView
-      lastMessage={avatarMessage}
-      agentState={agentState}
-      userVolume={userVolume}
-      agentVolume={agentVolume}
-      onBack={onBack}
-      onSwitchToChat={onSwitchToChat}
-      conversationStarted={conversationStarted}
-      isAgentReady={isAgentReady}
-    />
+    <>
+      <AvatarView
+        lastMessage={avatarMessage}
+        agentState={agentState}
+        userVolume={userVolume}
+        agentVolume={agentVolume}
+        onBack={onBack}
+        onSwitchToChat={onSwitchToChat}
+        conversationStarted={conversationStarted}
+        isAgentReady={isAgentReady}
+        agentRpc={agentRpc}
+      />
+
+      {/* Agent 미입장(타임아웃) 또는 세션 중 퇴장 시 에러 화면 (로딩 오버레이 위에 표시) */}
+      {agentUnavailableReason && (
+        <AgentUnavailableView
+          reason={agentUnavailableReason}
+          onRetry={onRetrySession}
+          onFallbackToChat={onSwitchToChat}
+          onBack={onBack}
+        />
+      )}
+    </>
   );
 }
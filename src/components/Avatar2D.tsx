@@ -0,0 +1,74 @@
+import { AgentState } from '@/lib/types';
+import { useTranslation } from '@/lib/i18n';
+import type { UnityFallbackReason } from '@/lib/unity/capabilities';
+import agentEllipse from '@/assets/agent-ellipse.png';
+
+interface Avatar2DProps {
+  agentState: AgentState | null;
+  agentVolume: number;
+  reason: UnityFallbackReason;
+  onRetry?: () => void;  // Offered for load_error only
+}
+
+/**
+ * Avatar2D - Voice-only stand-in when the Unity avatar cannot run
+ * Pulses while thinking and follows the agent's volume while speaking.
+ */
+export function Avatar2D({ agentState, agentVolume, reason, onRetry }: Avatar2DProps) {
+  const { t } = useTranslation();
+  const isSpeaking = agentState === 'speaking';
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center" style={{ gap: 24 }}>
+      <div className="relative flex items-center justify-center" style={{ width: 200, height: 200 }}>
+        {/* 볼륨 링 - 말하는 동안 볼륨에 따라 커짐 */}
+        <div
+          className={`absolute inset-0 rounded-full ${agentState === 'thinking' ? 'animate-pulse' : ''}`}
+          style={{
+            background: 'radial-gradient(circle, rgba(113, 240, 167, 0.6) 40%, transparent 70%)',
+            transform: `scale(${isSpeaking ? 1 + agentVolume * 0.5 : 0.9})`,
+            opacity: isSpeaking ? 0.5 + agentVolume * 0.5 : agentState === 'listening' ? 0.4 : 0.2,
+            transition: 'transform 0.1s ease-out, opacity 0.3s ease-out',
+          }}
+        />
+        <img
+          src={agentEllipse}
+          alt=""
+          className="relative w-[144px] h-[144px]"
+          style={{
+            transform: `scale(${isSpeaking ? 1 + agentVolume * 0.08 : 1})`,
+            transition: 'transform 0.1s ease-out',
+          }}
+        />
+      </div>
+
+      <span
+        className="px-3 py-1 rounded-full bg-white/70"
+        style={{
+          fontFamily: 'Noto Sans KR, sans-serif',
+          fontSize: 12,
+          letterSpacing: -0.24,
+          lineHeight: 1.4,
+          color: '#555555',
+        }}
+      >
+        {t(`avatar.fallback.${reason}`)}
+      </span>
+
+      {reason === 'load_error' && onRetry && (
+        <button
+          onClick={onRetry}
+          className="px-4 py-2 rounded-full bg-white/90"
+          style={{
+            fontFamily: 'Noto Sans KR, sans-serif',
+            fontSize: 13,
+            letterSpacing: -0.26,
+            color: '#333333',
+          }}
+        >
+          {t('avatar.fallback.retry')}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useEffect, useRef } from 'react';
+import type { AvatarEntry } from '@/lib/unity/manifest';
+
+interface AvatarPickerProps {
+  isOpen: boolean;
+  avatars: AvatarEntry[];
+  selected: string;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+export function AvatarPicker({ isOpen, avatars, selected, onSelect, onClose }: AvatarPickerProps) {
+  const pickerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClickOutside = (event: MouseEvent) => {
+      if (pickerRef.current && !pickerRef.current.contains(event.target as Node)) {
+        onClose();
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [isOpen, onClose]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      ref={pickerRef}
+      className="absolute top-full right-0 mt-2 bg-white rounded-[10px] z-[300]"
+      style={{
+        backdropFilter: 'blur(17.5px)',
+        boxShadow: '0 35px 35px rgba(0, 0, 0, 0.25)',
+        padding: '10px',
+        border: '1px solid #fff',
+      }}
+    >
+      <div className="grid grid-cols-3 gap-2 w-[216px]">
+        {avatars.map((avatar) => (
+          <button
+            key={avatar.id}
+            onClick={() => onSelect(avatar.id)}
+            className={`
+              flex flex-col items-center gap-1 p-2 rounded-[8px] transition-colors
+              ${selected === avatar.id
+                ? 'bg-[#03c3ff] text-white'
+                : 'text-[#111] border border-[#ddd] hover:bg-gray-50'
+              }
+            `}
+            aria-pressed={selected === avatar.id}
+          >
+            <div className="w-12 h-12 rounded-full overflow-hidden bg-[#cdeeff]">
+              {avatar.thumbnail && <img src={avatar.thumbnail} alt="" className="w-full h-full object-cover" />}
+            </div>
+            <span
+              className="w-full truncate text-center text-[12px]"
+              style={{
+                fontFamily: 'Pretendard, sans-serif',
+                letterSpacing: '-0.24px',
+                lineHeight: 1.4
+              }}
+            >
+              {avatar.name}
+            </span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
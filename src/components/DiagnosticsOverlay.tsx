@@ -0,0 +1,131 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { AgentState } from '@/lib/types';
+import { useAnimationStats, useConnectionDiagnostics } from '@/lib/hooks';
+import type { FrameScheduler } from '@/lib/animation/frame-scheduler';
+
+const HISTORY_LENGTH = 60;  // Samples (one per stats interval, ~1s)
+const MAX_STATE_TRANSITIONS = 6;
+
+interface DiagnosticsOverlayProps {
+  scheduler: FrameScheduler;
+  agentState: AgentState | null;
+  onClose: () => void;
+}
+
+interface Sample {
+  receiveFps: number;
+  sendFps: number;
+  queue: number;
+  gaps: number;   // Per interval
+  late: number;   // Per interval (dropped + resyncs)
+  rttMs: number;
+}
+
+const CHARTS: { key: keyof Sample; label: string; unit: string; color: string }[] = [
+  { key: 'receiveFps', label: 'receive', unit: 'fps', color: '#4ade80' },
+  { key: 'sendFps', label: 'unity send', unit: 'fps', color: '#38bdf8' },
+  { key: 'queue', label: 'queue', unit: '', color: '#facc15' },
+  { key: 'gaps', label: 'seq gaps', unit: '/s', color: '#f87171' },
+  { key: 'late', label: 'late', unit: '/s', color: '#fb923c' },
+  { key: 'rttMs', label: 'rtt', unit: 'ms', color: '#c084fc' },
+];
+
+/**
+ * DiagnosticsOverlay - Live charts of the animation pipeline and connection
+ * Enabled with ?diag or Ctrl+Shift+D (see AvatarView)
+ */
+export function DiagnosticsOverlay({ scheduler, agentState, onClose }: DiagnosticsOverlayProps) {
+  const stats = useAnimationStats(scheduler);
+  const connection = useConnectionDiagnostics(useRoomContext());
+  const [history, setHistory] = useState<Sample[]>([]);
+  const [transitions, setTransitions] = useState<{ state: AgentState; at: number }[]>([]);
+  const previousStats = useRef(stats);
+  // Read at stats time so all charts share one clock
+  const connectionRef = useRef(connection);
+  connectionRef.current = connection;
+
+  // One sample per stats update
+  useEffect(() => {
+    const previous = previousStats.current;
+    const { rttMs, signalRttMs } = connectionRef.current;
+    previousStats.current = stats;
+    const sample: Sample = {
+      receiveFps: stats.receiveFps,
+      sendFps: stats.unitySendFps,
+      queue: stats.buffered,
+      gaps: Math.max(0, stats.gaps - previous.gaps),
+      late: Math.max(0, stats.dropped + stats.resyncs - previous.dropped - previous.resyncs),
+      rttMs: rttMs ?? signalRttMs ?? 0,
+    };
+    setHistory((samples) => [...samples, sample].slice(-HISTORY_LENGTH));
+  }, [stats]);
+
+  useEffect(() => {
+    if (!agentState) return;
+    setTransitions((list) => [...list, { state: agentState, at: performance.now() }].slice(-MAX_STATE_TRANSITIONS));
+  }, [agentState]);
+
+  const latest = history[history.length - 1];
+
+  return (
+    <div
+      className="absolute left-2 z-[300] w-60 rounded bg-black/80 p-2 text-[10px] font-mono text-white pointer-events-auto"
+      style={{ top: 'calc(136px + env(safe-area-inset-top, 0px))' }}
+    >
+      <div className="mb-1 flex items-center justify-between">
+        <span>
+          diagnostics · {stats.outputFps}fps target{stats.fallbackActive ? ' · audio fallback' : ''}
+        </span>
+        <button onClick={onClose} aria-label="Close">✕</button>
+      </div>
+
+      {CHARTS.map(({ key, label, unit, color }) => (
+        <div key={key} className="mb-1">
+          <div className="flex justify-between">
+            <span style={{ color }}>{label}</span>
+            <span>{latest ? `${latest[key]}${unit}` : '-'}</span>
+          </div>
+          <Sparkline values={history.map((sample) => sample[key])} color={color} />
+        </div>
+      ))}
+
+      <div className="mt-1 flex justify-between">
+        <span>connection</span>
+        <span>
+          {connection.quality}
+          {connection.signalRttMs !== null && ` · signal ${connection.signalRttMs}ms`}
+        </span>
+      </div>
+
+      <div className="mt-1">
+        <div>agent state</div>
+        {transitions.map(({ state, at }, i) => (
+          <div key={`${at}-${i}`} className="flex justify-between opacity-80">
+            <span>{state}</span>
+            <span>{((performance.now() - at) / 1000).toFixed(1)}s ago</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function Sparkline({ values, color }: { values: number[]; color: string }) {
+  const width = 224;
+  const height = 20;
+  const max = Math.max(1, ...values);
+  const points = values
+    .map((value, i) => {
+      const x = (i / (HISTORY_LENGTH - 1)) * width;
+      const y = height - (value / max) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <svg width={width} height={height} className="block bg-white/5">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1} />
+    </svg>
+  );
+}
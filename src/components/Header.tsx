@@ -7,9 +7,11 @@ interface HeaderProps {
   onBack?: () => void;
   showBack?: boolean;
   onLanguageClick?: () => void;
+  onAvatarClick?: () => void;  // Avatar picker button (hidden when omitted)
+  avatarThumbnail?: string;
 }
 
-export function Header({ onBack, showBack = true, onLanguageClick }: HeaderProps) {
+export function Header({ onBack, showBack = true, onLanguageClick, onAvatarClick, avatarThumbnail }: HeaderProps) {
   const { t } = useTranslation();
 
   return (
@@ -37,14 +39,27 @@ export function Header({ onBack, showBack = true, onLanguageClick }: HeaderProps
         className="absolute left-1/2 -translate-x-1/2 h-5"
       />
 
-      {/* Language button */}
-      <button
-        onClick={onLanguageClick}
-        className="flex items-center justify-center"
-        aria-label={t('accessibility.selectLanguage')}
-      >
-        <img src={buttonLanguage} alt="" className="w-6 h-6" />
-      </button>
+      <div className="flex items-center gap-3">
+        {/* Avatar button */}
+        {onAvatarClick && (
+          <button
+            onClick={onAvatarClick}
+            className="w-6 h-6 flex items-center justify-center rounded-full overflow-hidden bg-[#cdeeff]"
+            aria-label={t('accessibility.selectAvatar')}
+          >
+            {avatarThumbnail && <img src={avatarThumbnail} alt="" className="w-6 h-6 object-cover" />}
+          </button>
+        )}
+
+        {/* Language button */}
+        <button
+          onClick={onLanguageClick}
+          className="flex items-center justify-center"
+          aria-label={t('accessibility.selectLanguage')}
+        >
+          <img src={buttonLanguage} alt="" className="w-6 h-6" />
+        </button>
+      </div>
     </header>
   );
 }
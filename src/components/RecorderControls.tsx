@@ -0,0 +1,65 @@
+import { useEffect, useRef, useState } from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { AgentState } from '@/lib/types';
+import { SessionRecorder } from '@/lib/replay/session-recorder';
+import { RECORDING_EXTENSION } from '@/lib/replay/recording';
+
+interface RecorderControlsProps {
+  buildName: string;
+  agentState: AgentState | null;
+}
+
+/**
+ * RecorderControls - Debug button that records the session to a .avrec file
+ * (frames, control signals, agent state and agent audio; replay with ?replay)
+ */
+export function RecorderControls({ buildName, agentState }: RecorderControlsProps) {
+  const room = useRoomContext();
+  // New recorder per recording, labelled with the build shown when it started
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+
+  useEffect(() => {
+    if (isRecording && agentState) {
+      recorderRef.current?.recordAgentState(agentState);
+    }
+  }, [isRecording, agentState]);
+
+  // Stop capturing if the view goes away mid-recording
+  useEffect(() => {
+    return () => {
+      if (recorderRef.current?.isRecording) recorderRef.current.stop();
+    };
+  }, []);
+
+  const handleToggle = async () => {
+    const recorder = recorderRef.current;
+    if (!recorder?.isRecording) {
+      const next = new SessionRecorder(room, buildName);
+      recorderRef.current = next;
+      next.start();
+      setIsRecording(true);
+      return;
+    }
+
+    setIsRecording(false);
+    const file = await recorder.stop();
+    const url = URL.createObjectURL(file);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `avatar-session-${new Date().toISOString().replace(/[:.]/g, '-')}${RECORDING_EXTENSION}`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <button
+      onClick={handleToggle}
+      className="absolute left-2 z-[300] flex items-center gap-1 rounded bg-black/60 px-2 py-1 text-[11px] font-mono text-white"
+      style={{ top: 'calc(72px + env(safe-area-inset-top, 0px))' }}
+    >
+      <span className={`inline-block h-2 w-2 rounded-full ${isRecording ? 'bg-red-500 animate-pulse' : 'bg-white/50'}`} />
+      {isRecording ? 'Stop' : 'Rec'}
+    </button>
+  );
+}
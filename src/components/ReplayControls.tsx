@@ -0,0 +1,50 @@
+import { useReplay } from '@/lib/providers/ReplaySessionProvider';
+import { RECORDING_EXTENSION } from '@/lib/replay/recording';
+
+/**
+ * ReplayControls - Pick and play a recorded session (replay mode only)
+ */
+export function ReplayControls() {
+  const replay = useReplay();
+  if (!replay) return null;
+
+  const { status, fileName, recording, error, load, play, stop } = replay;
+
+  // Below the dev tuning / recorder buttons
+  return (
+    <div
+      className="absolute left-2 right-2 z-[300] flex items-center gap-2 rounded bg-black/70 px-2 py-1 text-[11px] font-mono text-white"
+      style={{ top: 'calc(104px + env(safe-area-inset-top, 0px))' }}
+    >
+      <label className="cursor-pointer rounded bg-white/20 px-2 py-0.5">
+        Open
+        <input
+          type="file"
+          accept={RECORDING_EXTENSION}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) {
+              load(file).catch((err) => console.error('[ReplayControls] Failed to load recording:', err));
+            }
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      <span className="flex-1 truncate">
+        {error
+          ? <span className="text-red-300">{error}</span>
+          : fileName
+            ? `${fileName} (${(recording!.durationMs / 1000).toFixed(1)}s${recording!.audio ? '' : ', no audio'})`
+            : 'replay: open a recording'}
+      </span>
+
+      {status !== 'empty' && (
+        <button onClick={status === 'playing' ? stop : play} className="rounded bg-white/20 px-2 py-0.5">
+          {status === 'playing' ? 'Stop' : status === 'ended' ? 'Replay' : 'Play'}
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react';
+import { ARKIT_BLENDSHAPES, type BlendshapeName } from '@/lib/animation/blendshapes';
+import {
+  MAX_SMOOTHING,
+  TuningProfileError,
+  parseTuningProfile,
+  type ChannelTuning,
+  type TuningProfile,
+} from '@/lib/animation/tuning-profile';
+
+interface TuningPanelProps {
+  buildName: string;
+  profile: TuningProfile;
+  onChange: (profile: TuningProfile) => void;
+}
+
+type ChannelKey = BlendshapeName | 'defaults';
+
+const SLIDERS: { field: keyof Omit<ChannelTuning, 'remap'>; min: number; max: number; step: number; fallback: number }[] = [
+  { field: 'gain', min: 0, max: 3, step: 0.05, fallback: 1 },
+  { field: 'offset', min: -1, max: 1, step: 0.01, fallback: 0 },
+  { field: 'min', min: 0, max: 1, step: 0.01, fallback: 0 },
+  { field: 'max', min: 0, max: 1, step: 0.01, fallback: 1 },
+  { field: 'smoothing', min: 0, max: MAX_SMOOTHING, step: 0.05, fallback: 0 },
+];
+
+/**
+ * TuningPanel - Dev-only live editor for the character's tuning.json
+ * Changes apply to the running avatar immediately; Export downloads the profile.
+ */
+export function TuningPanel({ buildName, profile, onChange }: TuningPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [channel, setChannel] = useState<ChannelKey>('jawOpen');
+  const [remapText, setRemapText] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const tuning: ChannelTuning = (channel === 'defaults' ? profile.defaults : profile.channels?.[channel]) ?? {};
+
+  const updateChannel = (next: ChannelTuning) => {
+    const cleaned: ChannelTuning = Object.fromEntries(Object.entries(next).filter(([, value]) => value !== undefined));
+    const candidate: TuningProfile = { ...profile, channels: { ...profile.channels } };
+    if (channel === 'defaults') {
+      candidate.defaults = cleaned;
+    } else if (Object.keys(cleaned).length > 0) {
+      candidate.channels![channel] = cleaned;
+    } else {
+      delete candidate.channels![channel];  // Back to defaults
+    }
+
+    try {
+      onChange(parseTuningProfile(candidate));
+      setError(null);
+    } catch (err) {
+      if (err instanceof TuningProfileError) {
+        setError(err.message);
+        return;
+      }
+      throw err;
+    }
+  };
+
+  const commitRemap = () => {
+    if (remapText === null) return;
+    const text = remapText.trim();
+    const remap = text === ''
+      ? undefined
+      : text.split(',').map((part) => part.trim()).filter(Boolean)
+          .map((part) => (/^\d+$/.test(part) ? Number(part) : part as BlendshapeName));
+    setRemapText(null);
+    updateChannel({ ...tuning, remap });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(profile, null, 2) + '\n'], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'tuning.json';  // Drop into public/unity/{name}/
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className="absolute right-2 z-[300] rounded bg-black/60 px-2 py-1 text-[11px] font-mono text-white"
+        style={{ top: 'calc(72px + env(safe-area-inset-top, 0px))' }}
+      >
+        Tuning
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className="absolute right-2 z-[300] w-64 rounded bg-black/80 p-3 text-[11px] font-mono text-white"
+      style={{ top: 'calc(72px + env(safe-area-inset-top, 0px))' }}
+    >
+      <div className="mb-2 flex items-center justify-between">
+        <span>tuning: {buildName}</span>
+        <button onClick={() => setIsOpen(false)} aria-label="Close">✕</button>
+      </div>
+
+      <select
+        value={channel}
+        onChange={(e) => {
+          setChannel(e.target.value as ChannelKey);
+          setRemapText(null);
+          setError(null);
+        }}
+        className="mb-2 w-full rounded bg-white/10 p-1"
+      >
+        <option value="defaults">(defaults)</option>
+        {ARKIT_BLENDSHAPES.map((name) => (
+          <option key={name} value={name}>
+            {profile.channels?.[name] ? `* ${name}` : name}
+          </option>
+        ))}
+      </select>
+
+      {SLIDERS.map(({ field, min, max, step, fallback }) => (
+        <label key={field} className="mb-1 flex items-center gap-2">
+          <span className="w-16">{field}</span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={tuning[field] ?? fallback}
+            onChange={(e) => updateChannel({ ...tuning, [field]: Number(e.target.value) })}
+            className="flex-1"
+          />
+          <span className="w-10 text-right">{(tuning[field] ?? fallback).toFixed(2)}</span>
+        </label>
+      ))}
+
+      <label className="mb-2 flex items-center gap-2">
+        <span className="w-16">remap</span>
+        <input
+          type="text"
+          placeholder={channel === 'defaults' ? '-' : channel}
+          disabled={channel === 'defaults'}
+          value={remapText ?? tuning.remap?.join(', ') ?? ''}
+          onChange={(e) => setRemapText(e.target.value)}
+          onBlur={commitRemap}
+          onKeyDown={(e) => e.key === 'Enter' && commitRemap()}
+          className="flex-1 rounded bg-white/10 p-1"
+        />
+      </label>
+
+      {error && <div className="mb-2 text-red-300">{error}</div>}
+
+      <div className="flex gap-2">
+        <button onClick={() => updateChannel({})} className="flex-1 rounded bg-white/10 py-1">
+          Reset
+        </button>
+        <button onClick={handleExport} className="flex-1 rounded bg-white/20 py-1">
+          Export
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+import { RoomEvent, RpcError, type PerformRpcParams, type Room } from 'livekit-client';
+import { findAgentParticipant } from '@/lib/livekit';
+
+/**
+ * RPC methods exposed by the agent, with their request/response payloads
+ */
+export interface AgentRpcMethods {
+  start_conversation: { request: void; response: void };
+  send_text_input: { request: { text: string }; response: void };
+  interrupt_agent: { request: void; response: void };
+}
+
+export type AgentRpcMethod = keyof AgentRpcMethods;
+type RpcRequest<M extends AgentRpcMethod> = AgentRpcMethods[M]['request'];
+type RpcResponse<M extends AgentRpcMethod> = AgentRpcMethods[M]['response'];
+
+interface RpcCodec<M extends AgentRpcMethod> {
+  encode: (request: RpcRequest<M>) => string;
+  decode: (payload: string) => RpcResponse<M>;
+  idempotent?: boolean;  // Safe to send twice - retried after a missing ack too
+}
+
+const ignoreResponse = () => undefined;
+
+const CODECS: { [M in AgentRpcMethod]: RpcCodec<M> } = {
+  start_conversation: { encode: () => '', decode: ignoreResponse },
+  send_text_input: { encode: (request) => JSON.stringify(request), decode: ignoreResponse },
+  interrupt_agent: { encode: () => '', decode: ignoreResponse, idempotent: true },
+};
+
+/**
+ * - agent_unavailable: no agent joined within the wait timeout
+ * - timeout: the agent did not answer in time
+ * - connection: delivery failed (after retries)
+ * - rejected: the agent answered with an error
+ */
+export type AgentRpcErrorCode = 'agent_unavailable' | 'timeout' | 'connection' | 'rejected';
+
+export class AgentRpcError extends Error {
+  code: AgentRpcErrorCode;
+  method: AgentRpcMethod;
+  cause?: unknown;
+
+  constructor(message: string, code: AgentRpcErrorCode, method: AgentRpcMethod, cause?: unknown) {
+    super(message);
+    this.name = 'AgentRpcError';
+    this.code = code;
+    this.method = method;
+    this.cause = cause;
+  }
+
+  /**
+   * i18n key for the message shown to the user
+   */
+  get messageKey(): string {
+    return `agentRpc.error.${this.code}`;
+  }
+}
+
+// Delivery failures: the request never reached the agent, so any method can be retried
+const UNDELIVERED_CODES: ReadonlySet<number> = new Set([
+  RpcError.ErrorCode.RECIPIENT_DISCONNECTED,
+  RpcError.ErrorCode.RECIPIENT_NOT_FOUND,
+  RpcError.ErrorCode.SEND_FAILED,
+]);
+
+function isRetryable(error: unknown, { idempotent }: { idempotent?: boolean }): boolean {
+  if (!(error instanceof RpcError)) return false;
+  if (UNDELIVERED_CODES.has(error.code)) return true;
+  // No ack - the request may already have been delivered (a retry would duplicate it)
+  return error.code === RpcError.ErrorCode.CONNECTION_TIMEOUT && !!idempotent;
+}
+
+/**
+ * Where the client finds the agent and sends RPCs
+ * (the LiveKit room, or the in-browser MockAgent)
+ */
+export interface AgentRpcTransport {
+  findAgentIdentity: () => string | undefined;
+  /** Called whenever participants join or leave; returns unsubscribe */
+  onParticipantsChanged: (listener: () => void) => () => void;
+  performRpc: (params: PerformRpcParams) => Promise<string>;
+}
+
+export function createRoomRpcTransport(room: Room): AgentRpcTransport {
+  return {
+    findAgentIdentity: () => findAgentParticipant(room)?.identity,
+    onParticipantsChanged: (listener) => {
+      room.on(RoomEvent.ParticipantConnected, listener);
+      room.on(RoomEvent.ParticipantDisconnected, listener);
+      return () => {
+        room.off(RoomEvent.ParticipantConnected, listener);
+        room.off(RoomEvent.ParticipantDisconnected, listener);
+      };
+    },
+    performRpc: (params) => room.localParticipant.performRpc(params),
+  };
+}
+
+export interface AgentRpcClientOptions {
+  agentTimeoutMs?: number;     // How long to wait for the agent to join
+  responseTimeoutMs?: number;  // Per-attempt response timeout
+  maxRetries?: number;         // Retries on delivery failures
+  retryDelayMs?: number;       // Base backoff (doubles per retry)
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * AgentRpcClient - Typed RPC calls to the agent
+ *
+ * - Waits for the agent to join (agentTimeoutMs) instead of silently dropping calls
+ * - Retries RpcError delivery failures with backoff, re-resolving the agent each time
+ * - Throws AgentRpcError with a code the UI can translate
+ */
+export class AgentRpcClient {
+  private transport: AgentRpcTransport;
+  private agentTimeoutMs: number;
+  private responseTimeoutMs: number;
+  private maxRetries: number;
+  private retryDelayMs: number;
+
+  constructor(transport: AgentRpcTransport, options: AgentRpcClientOptions = {}) {
+    this.transport = transport;
+    this.agentTimeoutMs = options.agentTimeoutMs ?? 10000;
+    this.responseTimeoutMs = options.responseTimeoutMs ?? 10000;
+    this.maxRetries = options.maxRetries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+  }
+
+  startConversation(): Promise<void> {
+    return this.call('start_conversation', undefined);
+  }
+
+  sendTextInput(text: string): Promise<void> {
+    return this.call('send_text_input', { text });
+  }
+
+  interruptAgent(): Promise<void> {
+    return this.call('interrupt_agent', undefined);
+  }
+
+  async call<M extends AgentRpcMethod>(method: M, request: RpcRequest<M>): Promise<RpcResponse<M>> {
+    const codec = CODECS[method] as RpcCodec<M>;
+    const payload = codec.encode(request);
+
+    for (let attempt = 0; ; attempt++) {
+      const destinationIdentity = await this.resolveAgent(method);
+
+      try {
+        const response = await this.transport.performRpc({
+          destinationIdentity,
+          method,
+          payload,
+          responseTimeout: this.responseTimeoutMs,
+        });
+        return codec.decode(response);
+      } catch (error) {
+        if (!isRetryable(error, codec) || attempt >= this.maxRetries) {
+          throw this.toAgentRpcError(method, error);
+        }
+
+        const delay = this.retryDelayMs * 2 ** attempt;
+        console.warn(`[AgentRpcClient] ${method} failed (${(error as RpcError).code}), retrying in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  /**
+   * Resolve the agent identity, waiting up to agentTimeoutMs for it to join
+   */
+  private resolveAgent(method: AgentRpcMethod): Promise<string> {
+    const identity = this.transport.findAgentIdentity();
+    if (identity) return Promise.resolve(identity);
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        reject(new AgentRpcError(`No agent joined within ${this.agentTimeoutMs}ms`, 'agent_unavailable', method));
+      }, this.agentTimeoutMs);
+
+      const unsubscribe = this.transport.onParticipantsChanged(() => {
+        const joined = this.transport.findAgentIdentity();
+        if (!joined) return;
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(joined);
+      });
+    });
+  }
+
+  private toAgentRpcError(method: AgentRpcMethod, error: unknown): AgentRpcError {
+    if (error instanceof AgentRpcError) return error;
+
+    if (error instanceof RpcError) {
+      if (error.code === RpcError.ErrorCode.RESPONSE_TIMEOUT) {
+        return new AgentRpcError(error.message, 'timeout', method, error);
+      }
+      if (UNDELIVERED_CODES.has(error.code) || error.code === RpcError.ErrorCode.CONNECTION_TIMEOUT) {
+        return new AgentRpcError(error.message, 'connection', method, error);
+      }
+      return new AgentRpcError(error.message, 'rejected', method, error);
+    }
+
+    // e.g. "cannot perform RPC" while the room is disconnected
+    const message = error instanceof Error ? error.message : String(error);
+    return new AgentRpcError(message, 'connection', method, error);
+  }
+}
@@ -0,0 +1,94 @@
+// Rates that line up with a 60Hz display (every Nth refresh)
+const RATE_LADDER = [60, 30, 20, 15, 10];
+
+const SMOOTHING = 0.1;            // EMA weight of the newest sample
+const EVALUATE_INTERVAL_MS = 2000;
+const STRUGGLING_FPS = 45;        // Page rendering below this: step down
+const COMFORTABLE_FPS = 55;       // ...above this: step back up
+const UNITY_BUSY_RATIO = 0.75;    // Unity using >75% of the frame interval counts as struggling
+
+export interface AdaptiveFrameRateOptions {
+  targetFps: number;  // Ceiling (VITE_AVATAR_TARGET_FPS)
+}
+
+/**
+ * AdaptiveFrameRate - Picks the avatar update rate from measured performance
+ *
+ * Fed with requestAnimationFrame intervals (how fast the page actually renders)
+ * and, when the Unity build reports it, Unity's own frame time. Every
+ * EVALUATE_INTERVAL_MS it moves one rung down RATE_LADDER when the device is
+ * struggling and one rung up (never past targetFps) when it is comfortable.
+ */
+export class AdaptiveFrameRate {
+  private rates: number[];
+  private rateIndex = 0;
+
+  private frameIntervalMs: number | null = null;
+  private unityFrameMs: number | null = null;
+  private lastEvaluateMs: number | null = null;
+
+  constructor({ targetFps }: AdaptiveFrameRateOptions) {
+    this.rates = RATE_LADDER.filter((rate) => rate <= targetFps);
+    if (this.rates[0] !== targetFps) {
+      this.rates.unshift(targetFps);
+    }
+  }
+
+  get fps(): number {
+    return this.rates[this.rateIndex];
+  }
+
+  get intervalMs(): number {
+    return 1000 / this.fps;
+  }
+
+  /**
+   * Smoothed page render rate (0 until measured)
+   */
+  get renderFps(): number {
+    return this.frameIntervalMs ? Math.round(1000 / this.frameIntervalMs) : 0;
+  }
+
+  /**
+   * One requestAnimationFrame interval
+   */
+  sampleFrameInterval(intervalMs: number, nowMs: number): void {
+    // Ignore pauses (background tab) - they say nothing about device speed
+    if (intervalMs <= 0 || intervalMs > 250) return;
+    this.frameIntervalMs = ema(this.frameIntervalMs, intervalMs);
+
+    if (this.lastEvaluateMs === null) {
+      this.lastEvaluateMs = nowMs;
+    } else if (nowMs - this.lastEvaluateMs >= EVALUATE_INTERVAL_MS) {
+      this.lastEvaluateMs = nowMs;
+      this.evaluate();
+    }
+  }
+
+  /**
+   * Unity's reported frame time (CPU ms per frame)
+   */
+  sampleUnityFrameTime(frameMs: number): void {
+    if (!(frameMs > 0)) return;
+    this.unityFrameMs = ema(this.unityFrameMs, frameMs);
+  }
+
+  private evaluate(): void {
+    if (this.frameIntervalMs === null) return;
+
+    const renderFps = 1000 / this.frameIntervalMs;
+    const unityBusy = this.unityFrameMs !== null && this.unityFrameMs > this.frameIntervalMs * UNITY_BUSY_RATIO;
+
+    if ((renderFps < STRUGGLING_FPS || unityBusy) && this.rateIndex < this.rates.length - 1) {
+      this.rateIndex++;
+      console.log(`[AdaptiveFrameRate] Device struggling (${renderFps.toFixed(0)}fps) - avatar rate ${this.fps}fps`);
+    } else if (renderFps > COMFORTABLE_FPS && !unityBusy && this.rateIndex > 0) {
+      this.rateIndex--;
+      console.log(`[AdaptiveFrameRate] Headroom available - avatar rate ${this.fps}fps`);
+    }
+  }
+}
+
+function ema(previous: number | null, sample: number): number {
+  return previous === null ? sample : previous + SMOOTHING * (sample - previous);
+}
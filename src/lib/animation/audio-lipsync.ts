@@ -0,0 +1,116 @@
+import { BLENDSHAPE_COUNT, blendshapeIndex } from './blendshapes';
+
+const FFT_SIZE = 1024;
+const NOISE_FLOOR = 0.02;   // RMS below this is silence
+const LOUD_RMS = 0.25;      // RMS mapped to a fully open jaw
+const ATTACK = 0.6;         // Smoothing toward louder values (fast open)
+const RELEASE = 0.25;       // ...toward quieter values (slower close)
+
+// Rough formant bands (Hz): low energy ~ rounded vowels (o/u), high ~ spread vowels (i/e)
+const LOW_BAND: [number, number] = [150, 900];
+const HIGH_BAND: [number, number] = [1800, 4000];
+
+const JAW_OPEN = blendshapeIndex('jawOpen');
+const MOUTH_FUNNEL = blendshapeIndex('mouthFunnel');
+const MOUTH_PUCKER = blendshapeIndex('mouthPucker');
+const MOUTH_STRETCH_LEFT = blendshapeIndex('mouthStretchLeft');
+const MOUTH_STRETCH_RIGHT = blendshapeIndex('mouthStretchRight');
+const MOUTH_LOWER_DOWN_LEFT = blendshapeIndex('mouthLowerDownLeft');
+const MOUTH_LOWER_DOWN_RIGHT = blendshapeIndex('mouthLowerDownRight');
+
+/**
+ * AudioLipSync - Approximate mouth shapes from the agent's audio
+ *
+ * Fallback for when the agent sends no animation frames. Loudness drives
+ * jawOpen; the balance between low and high formant bands leans the mouth
+ * toward rounded (funnel/pucker) or spread (stretch) shapes. Not real
+ * visemes, but enough that the avatar visibly talks.
+ */
+export class AudioLipSync {
+  private context: AudioContext;
+  private source: MediaStreamAudioSourceNode;
+  private analyser: AnalyserNode;
+  private timeData: Float32Array<ArrayBuffer>;
+  private frequencyData: Float32Array<ArrayBuffer>;
+  private weights = new Float32Array(BLENDSHAPE_COUNT);
+
+  private openness = 0;
+  private roundness = 0;
+  private spread = 0;
+
+  constructor(mediaStream: MediaStream) {
+    this.context = new AudioContext();
+    if (this.context.state === 'suspended') {
+      this.context.resume().catch(() => {});
+    }
+
+    this.source = this.context.createMediaStreamSource(mediaStream);
+    this.analyser = this.context.createAnalyser();
+    this.analyser.fftSize = FFT_SIZE;
+    this.analyser.smoothingTimeConstant = 0.3;
+    this.source.connect(this.analyser);
+
+    this.timeData = new Float32Array(this.analyser.fftSize);
+    this.frequencyData = new Float32Array(this.analyser.frequencyBinCount);
+  }
+
+  /**
+   * Current 52-channel weights (buffer is reused between calls)
+   */
+  sample(): Float32Array {
+    this.analyser.getFloatTimeDomainData(this.timeData);
+    let sum = 0;
+    for (let i = 0; i < this.timeData.length; i++) {
+      sum += this.timeData[i] * this.timeData[i];
+    }
+    const rms = Math.sqrt(sum / this.timeData.length);
+    const loudness = clamp01((rms - NOISE_FLOOR) / (LOUD_RMS - NOISE_FLOOR));
+
+    let roundness = 0;
+    let spread = 0;
+    if (loudness > 0) {
+      this.analyser.getFloatFrequencyData(this.frequencyData);
+      const low = this.bandEnergy(LOW_BAND);
+      const high = this.bandEnergy(HIGH_BAND);
+      const balance = (low - high) / (low + high || 1);  // -1 (spread) .. 1 (rounded)
+      roundness = clamp01(balance) * loudness;
+      spread = clamp01(-balance) * loudness;
+    }
+
+    this.openness = follow(this.openness, loudness);
+    this.roundness = follow(this.roundness, roundness);
+    this.spread = follow(this.spread, spread);
+
+    const w = this.weights;
+    w[JAW_OPEN] = this.openness * 0.7;
+    w[MOUTH_LOWER_DOWN_LEFT] = w[MOUTH_LOWER_DOWN_RIGHT] = this.openness * 0.3;
+    w[MOUTH_FUNNEL] = this.roundness * 0.6;
+    w[MOUTH_PUCKER] = this.roundness * 0.4;
+    w[MOUTH_STRETCH_LEFT] = w[MOUTH_STRETCH_RIGHT] = this.spread * 0.4;
+    return w;
+  }
+
+  close(): void {
+    this.source.disconnect();
+    this.context.close().catch(() => {});
+  }
+
+  private bandEnergy([fromHz, toHz]: [number, number]): number {
+    const binHz = this.context.sampleRate / this.analyser.fftSize;
+    const from = Math.max(0, Math.floor(fromHz / binHz));
+    const to = Math.min(this.frequencyData.length - 1, Math.ceil(toHz / binHz));
+    let energy = 0;
+    for (let i = from; i <= to; i++) {
+      energy += 10 ** (this.frequencyData[i] / 10);  // dB -> power
+    }
+    return energy;
+  }
+}
+
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function follow(current: number, target: number): number {
+  return current + (target > current ? ATTACK : RELEASE) * (target - current);
+}
@@ -0,0 +1,44 @@
+/**
+ * ARKit blendshape layout used by the agent and Unity (NoServerDataProcessor)
+ * One frame = 52 little-endian float32 weights (208 bytes)
+ */
+export const ARKIT_BLENDSHAPES = [
+  'eyeBlinkLeft', 'eyeLookDownLeft', 'eyeLookInLeft', 'eyeLookOutLeft', 'eyeLookUpLeft',
+  'eyeSquintLeft', 'eyeWideLeft', 'eyeBlinkRight', 'eyeLookDownRight', 'eyeLookInRight',
+  'eyeLookOutRight', 'eyeLookUpRight', 'eyeSquintRight', 'eyeWideRight', 'jawForward',
+  'jawLeft', 'jawRight', 'jawOpen', 'mouthClose', 'mouthFunnel',
+  'mouthPucker', 'mouthLeft', 'mouthRight', 'mouthSmileLeft', 'mouthSmileRight',
+  'mouthFrownLeft', 'mouthFrownRight', 'mouthDimpleLeft', 'mouthDimpleRight', 'mouthStretchLeft',
+  'mouthStretchRight', 'mouthRollLower', 'mouthRollUpper', 'mouthShrugLower', 'mouthShrugUpper',
+  'mouthPressLeft', 'mouthPressRight', 'mouthLowerDownLeft', 'mouthLowerDownRight', 'mouthUpperUpLeft',
+  'mouthUpperUpRight', 'browDownLeft', 'browDownRight', 'browInnerUp', 'browOuterUpLeft',
+  'browOuterUpRight', 'cheekPuff', 'cheekSquintLeft', 'cheekSquintRight', 'noseSneerLeft',
+  'noseSneerRight', 'tongueOut',
+] as const;
+
+export type BlendshapeName = typeof ARKIT_BLENDSHAPES[number];
+
+export const BLENDSHAPE_COUNT = ARKIT_BLENDSHAPES.length; // 52
+export const FRAME_BYTE_LENGTH = BLENDSHAPE_COUNT * 4;     // 208
+
+/**
+ * Index of a blendshape in the 52-channel layout
+ */
+export function blendshapeIndex(name: BlendshapeName): number {
+  return ARKIT_BLENDSHAPES.indexOf(name);
+}
+
+/**
+ * Encode weights as the 208-byte little-endian frame the agent sends
+ * Pass `bytes` to reuse an existing buffer (per-frame hot paths)
+ */
+export function encodeBlendshapeFrame(
+  weights: ArrayLike<number>,
+  bytes: Uint8Array = new Uint8Array(FRAME_BYTE_LENGTH)
+): Uint8Array {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, FRAME_BYTE_LENGTH);
+  for (let i = 0; i < BLENDSHAPE_COUNT; i++) {
+    view.setFloat32(i * 4, weights[i] ?? 0, true);
+  }
+  return bytes;
+}
@@ -0,0 +1,207 @@
+import { BLENDSHAPE_COUNT, FRAME_BYTE_LENGTH } from './blendshapes';
+
+/**
+ * Animation frame protocol
+ *
+ * v1 (data topic ANIMATION_TOPIC), little-endian:
+ *
+ *   offset  size  field
+ *   0       1     version (1)
+ *   1       1     flags (FrameFlags)
+ *   2       2     channelCount (u16)
+ *   4       4     sequence (u32, per agent session)
+ *   8       4     timestampMs (u32, media time of the frame within the stream)
+ *   12      4*N   channels (float32): blendshapes, then head pose / eye gaze when flagged
+ *
+ * Control messages are header-only frames with FINAL / INTERRUPTED set.
+ *
+ * Legacy (no topic): 208-byte payload = 52 float32 blendshapes,
+ * UTF-8 'final' / 'interrupted' = control messages.
+ */
+export const ANIMATION_TOPIC = 'avatar.animation';
+export const PROTOCOL_VERSION = 1;
+export const HEADER_BYTE_LENGTH = 12;
+
+export const FrameFlags = {
+  FINAL: 0x01,        // End of utterance (after all previous frames)
+  INTERRUPTED: 0x02,  // Stop immediately
+  HEAD_POSE: 0x04,    // +3 channels: pitch, yaw, roll (radians)
+  EYE_GAZE: 0x08,     // +4 channels: left x/y, right x/y (-1..1)
+} as const;
+
+const HEAD_POSE_CHANNELS = 3;
+const EYE_GAZE_CHANNELS = 4;
+
+export interface HeadPose {
+  pitch: number;
+  yaw: number;
+  roll: number;
+}
+
+export interface EyeGaze {
+  leftX: number;
+  leftY: number;
+  rightX: number;
+  rightY: number;
+}
+
+export interface AnimationFrame {
+  version: number;             // 0 = legacy
+  sequence: number | null;
+  timestampMs: number | null;
+  blendshapes: Float32Array;   // As sent (may differ from 52 for newer rigs)
+  headPose?: HeadPose;
+  eyeGaze?: EyeGaze;
+}
+
+export type AnimationMessage =
+  | { type: 'frame'; frame: AnimationFrame }
+  | { type: 'final'; sequence: number | null }
+  | { type: 'interrupted'; sequence: number | null };
+
+export class AnimationFrameError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AnimationFrameError';
+  }
+}
+
+/**
+ * Decode a data packet from the agent
+ * Returns null for packets that are not animation data (e.g. other text messages)
+ * Throws AnimationFrameError for malformed or unsupported versioned frames
+ */
+export function decodeAnimationMessage(payload: Uint8Array, topic?: string): AnimationMessage | null {
+  if (topic === ANIMATION_TOPIC) {
+    return decodeVersioned(payload);
+  }
+  if (topic) {
+    return null;  // Some other topic
+  }
+  return decodeLegacy(payload);
+}
+
+function decodeLegacy(payload: Uint8Array): AnimationMessage | null {
+  if (payload.length === FRAME_BYTE_LENGTH) {
+    return {
+      type: 'frame',
+      frame: {
+        version: 0,
+        sequence: null,
+        timestampMs: null,
+        blendshapes: readFloats(payload, 0, BLENDSHAPE_COUNT),
+      },
+    };
+  }
+
+  const message = new TextDecoder().decode(payload);
+  if (message === 'final') return { type: 'final', sequence: null };
+  if (message === 'interrupted') return { type: 'interrupted', sequence: null };
+  return null;
+}
+
+function decodeVersioned(payload: Uint8Array): AnimationMessage {
+  if (payload.length < HEADER_BYTE_LENGTH) {
+    throw new AnimationFrameError(`Frame too short: ${payload.length} bytes`);
+  }
+
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+  const version = view.getUint8(0);
+  if (version !== PROTOCOL_VERSION) {
+    throw new AnimationFrameError(`Unsupported frame version: ${version}`);
+  }
+
+  const flags = view.getUint8(1);
+  const channelCount = view.getUint16(2, true);
+  const sequence = view.getUint32(4, true);
+  const timestampMs = view.getUint32(8, true);
+
+  if (flags & FrameFlags.INTERRUPTED) return { type: 'interrupted', sequence };
+  if (flags & FrameFlags.FINAL) return { type: 'final', sequence };
+
+  const expectedLength = HEADER_BYTE_LENGTH + channelCount * 4;
+  if (payload.length !== expectedLength) {
+    throw new AnimationFrameError(`Frame length ${payload.length} does not match ${channelCount} channels`);
+  }
+
+  const extraChannels = (flags & FrameFlags.HEAD_POSE ? HEAD_POSE_CHANNELS : 0)
+    + (flags & FrameFlags.EYE_GAZE ? EYE_GAZE_CHANNELS : 0);
+  const blendshapeCount = channelCount - extraChannels;
+  if (blendshapeCount < 0) {
+    throw new AnimationFrameError(`Flags require ${extraChannels} channels, frame has ${channelCount}`);
+  }
+
+  const channels = readFloats(payload, HEADER_BYTE_LENGTH, channelCount);
+  const frame: AnimationFrame = {
+    version,
+    sequence,
+    timestampMs,
+    blendshapes: channels.subarray(0, blendshapeCount),
+  };
+
+  let offset = blendshapeCount;
+  if (flags & FrameFlags.HEAD_POSE) {
+    frame.headPose = { pitch: channels[offset], yaw: channels[offset + 1], roll: channels[offset + 2] };
+    offset += HEAD_POSE_CHANNELS;
+  }
+  if (flags & FrameFlags.EYE_GAZE) {
+    frame.eyeGaze = {
+      leftX: channels[offset],
+      leftY: channels[offset + 1],
+      rightX: channels[offset + 2],
+      rightY: channels[offset + 3],
+    };
+  }
+
+  return { type: 'frame', frame };
+}
+
+function readFloats(payload: Uint8Array, byteOffset: number, count: number): Float32Array {
+  const view = new DataView(payload.buffer, payload.byteOffset + byteOffset, count * 4);
+  const values = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    values[i] = view.getFloat32(i * 4, true);
+  }
+  return values;
+}
+
+interface EncodeFrameOptions {
+  sequence: number;
+  timestampMs: number;
+  blendshapes?: ArrayLike<number>;
+  headPose?: HeadPose;
+  eyeGaze?: EyeGaze;
+  flags?: number;  // FINAL / INTERRUPTED for control messages
+}
+
+/**
+ * Encode a v1 frame (used by the mock agent; mirrors the agent-side encoder)
+ */
+export function encodeAnimationFrame({
+  sequence,
+  timestampMs,
+  blendshapes = [],
+  headPose,
+  eyeGaze,
+  flags = 0,
+}: EncodeFrameOptions): Uint8Array {
+  const channels: number[] = Array.from(blendshapes);
+  if (headPose) {
+    flags |= FrameFlags.HEAD_POSE;
+    channels.push(headPose.pitch, headPose.yaw, headPose.roll);
+  }
+  if (eyeGaze) {
+    flags |= FrameFlags.EYE_GAZE;
+    channels.push(eyeGaze.leftX, eyeGaze.leftY, eyeGaze.rightX, eyeGaze.rightY);
+  }
+
+  const bytes = new Uint8Array(HEADER_BYTE_LENGTH + channels.length * 4);
+  const view = new DataView(bytes.buffer);
+  view.setUint8(0, PROTOCOL_VERSION);
+  view.setUint8(1, flags);
+  view.setUint16(2, channels.length, true);
+  view.setUint32(4, sequence >>> 0, true);
+  view.setUint32(8, timestampMs >>> 0, true);
+  channels.forEach((value, i) => view.setFloat32(HEADER_BYTE_LENGTH + i * 4, value, true));
+  return bytes;
+}
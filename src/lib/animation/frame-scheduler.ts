@@ -0,0 +1,322 @@
+import { AdaptiveFrameRate } from './adaptive-rate';
+import { BLENDSHAPE_COUNT, FRAME_BYTE_LENGTH, encodeBlendshapeFrame } from './blendshapes';
+import type { AnimationFrame, AnimationMessage } from './frame-decoder';
+import { JitterBuffer, type JitterBufferStats } from './jitter-buffer';
+import type { BlendshapeTuner } from './tuning-profile';
+
+const TICK_TOLERANCE_MS = 4;  // rAF timestamps wobble around the 60Hz grid
+const FALLBACK_GRACE_MS = 600;  // Speaking without agent frames for this long -> audio lip-sync
+
+/**
+ * Output delivered to subscribers
+ * `frame` is the 52-channel 208-byte layout Unity expects. The buffer is reused
+ * for every tick - copy it if it has to outlive the listener call.
+ */
+export type ScheduledOutput =
+  | { type: 'frame'; frame: Uint8Array; duplicate: boolean }
+  | { type: 'final' }
+  | { type: 'interrupted' };
+
+export type ScheduledOutputListener = (output: ScheduledOutput) => void;
+
+/**
+ * Local 52-channel weights used when the agent sends no frames (AudioLipSync)
+ */
+export type FallbackWeightsSource = () => Float32Array;
+
+export interface FrameSchedulerStats extends JitterBufferStats {
+  received: number;
+  delivered: number;
+  receiveFps: number;  // Over the last stats interval
+  deliverFps: number;
+  unitySendFps: number;  // Frames Unity actually got (see reportUnityFrameSent)
+  outputFps: number;   // Current adaptive target
+  renderFps: number;   // Measured page render rate
+  fallbackActive: boolean;
+  fallbackFrames: number;
+}
+
+export type FrameSchedulerStatsListener = (stats: FrameSchedulerStats) => void;
+
+export interface FrameSchedulerOptions {
+  sourceIntervalMs: number;  // Agent frame spacing
+  targetFps: number;         // Delivery rate ceiling (adapted down on slow devices)
+  targetDelayMs: number;
+  statsIntervalMs?: number;  // Stats listeners are called at most this often
+}
+
+/**
+ * FrameScheduler - Animation frame pump outside React
+ *
+ * Decoded messages go into a JitterBuffer; a requestAnimationFrame loop pulls
+ * one output per tick of the AdaptiveFrameRate and hands it straight to
+ * subscribers (the Unity bridge), so no frame ever goes through React state.
+ * - Weights are interpolated between the surrounding frames, so motion stays
+ *   smooth whatever the delivery rate, then run through the character's tuner
+ * - 'interrupted' clears the buffer and is delivered immediately
+ * - While the agent is speaking but no frames arrived for FALLBACK_GRACE_MS,
+ *   frames come from the fallback source (audio analysis) until real ones resume
+ * - Stats are published to stats subscribers every statsIntervalMs
+ */
+export class FrameScheduler {
+  private jitterBuffer: JitterBuffer<AnimationFrame>;
+  private frameRate: AdaptiveFrameRate;
+  private statsIntervalMs: number;
+
+  private listeners = new Set<ScheduledOutputListener>();
+  private statsListeners = new Set<FrameSchedulerStatsListener>();
+  private weights = new Float32Array(BLENDSHAPE_COUNT);
+  private tunedWeights = new Float32Array(BLENDSHAPE_COUNT);
+  private tuner: BlendshapeTuner | null = null;
+
+  private fallbackSource: FallbackWeightsSource | null = null;
+  private fallbackActive = false;
+  private fallbackFrames = 0;
+  private speakingSinceMs: number | null = null;
+  private lastFrameArrivalMs = -Infinity;
+  private frameBytes = new Uint8Array(FRAME_BYTE_LENGTH);
+
+  private rafId: number | null = null;
+  private nextTickMs = 0;
+  private lastRafMs: number | null = null;
+
+  private received = 0;
+  private delivered = 0;
+  private lastStatsMs = 0;
+  private lastStatsReceived = 0;
+  private lastStatsDelivered = 0;
+  private unityFramesSent = 0;
+  private lastStatsUnityFramesSent = 0;
+  private latestStats: FrameSchedulerStats;
+
+  constructor({ sourceIntervalMs, targetFps, targetDelayMs, statsIntervalMs = 1000 }: FrameSchedulerOptions) {
+    this.frameRate = new AdaptiveFrameRate({ targetFps });
+    this.jitterBuffer = new JitterBuffer<AnimationFrame>({
+      frameIntervalMs: sourceIntervalMs,
+      outputIntervalMs: this.frameRate.intervalMs,
+      targetDelayMs,
+    });
+    this.statsIntervalMs = statsIntervalMs;
+    this.latestStats = {
+      ...this.jitterBuffer.getStats(),
+      received: 0,
+      delivered: 0,
+      receiveFps: 0,
+      deliverFps: 0,
+      unitySendFps: 0,
+      outputFps: this.frameRate.fps,
+      renderFps: 0,
+      fallbackActive: false,
+      fallbackFrames: 0,
+    };
+  }
+
+  setPlayoutDelay(delayMs: number): void {
+    this.jitterBuffer.setPlayoutDelay(delayMs);
+  }
+
+  /**
+   * Frame time reported by the Unity build (feeds the adaptive rate)
+   */
+  reportUnityFrameTime(frameMs: number): void {
+    this.frameRate.sampleUnityFrameTime(frameMs);
+  }
+
+  /**
+   * A delivered frame reached Unity (reported by the frame sink)
+   */
+  reportUnityFrameSent(): void {
+    this.unityFramesSent++;
+  }
+
+  /**
+   * Per-character tuning applied before delivery (null = raw weights)
+   */
+  setTuner(tuner: BlendshapeTuner | null): void {
+    this.tuner = tuner;
+  }
+
+  /**
+   * Audio-driven weights for when agent frames are missing (null = none)
+   */
+  setFallbackSource(source: FallbackWeightsSource | null): void {
+    this.fallbackSource = source;
+  }
+
+  /**
+   * Agent speaking state - the fallback only runs while speaking
+   */
+  setSpeaking(speaking: boolean): void {
+    if (speaking === (this.speakingSinceMs !== null)) return;
+    this.speakingSinceMs = speaking ? performance.now() : null;
+  }
+
+  push(message: AnimationMessage, arrivalMs: number): void {
+    if (message.type === 'frame') {
+      const { frame } = message;
+      this.received++;
+      this.lastFrameArrivalMs = arrivalMs;
+      this.jitterBuffer.pushFrame(frame, arrivalMs, { sequence: frame.sequence, timestampMs: frame.timestampMs });
+    } else if (message.type === 'final') {
+      this.jitterBuffer.pushFinal(arrivalMs); // Order preserved
+    } else {
+      this.jitterBuffer.clear(); // Clear buffer immediately
+      this.tuner?.reset();
+      this.emit({ type: 'interrupted' });
+    }
+  }
+
+  /**
+   * Returns unsubscribe
+   */
+  subscribe(listener: ScheduledOutputListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Throttled stats for UI; returns unsubscribe
+   */
+  subscribeStats(listener: FrameSchedulerStatsListener): () => void {
+    this.statsListeners.add(listener);
+    listener(this.latestStats);
+    return () => {
+      this.statsListeners.delete(listener);
+    };
+  }
+
+  getStats(): FrameSchedulerStats {
+    return this.latestStats;
+  }
+
+  start(): void {
+    if (this.rafId !== null) return;
+    this.nextTickMs = performance.now();
+    this.lastStatsMs = this.nextTickMs;
+    this.rafId = requestAnimationFrame(this.tick);
+  }
+
+  stop(): void {
+    if (this.rafId === null) return;
+    cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+    this.lastRafMs = null;
+  }
+
+  private tick = (nowMs: number) => {
+    this.rafId = requestAnimationFrame(this.tick);
+
+    if (this.lastRafMs !== null) {
+      const previousFps = this.frameRate.fps;
+      this.frameRate.sampleFrameInterval(nowMs - this.lastRafMs, nowMs);
+      if (this.frameRate.fps !== previousFps) {
+        this.jitterBuffer.setOutputInterval(this.frameRate.intervalMs);
+      }
+    }
+    this.lastRafMs = nowMs;
+
+    if (nowMs + TICK_TOLERANCE_MS >= this.nextTickMs) {
+      const intervalMs = this.frameRate.intervalMs;
+      this.nextTickMs += intervalMs;
+      // Fell behind (e.g. tab in background): restart the grid instead of bursting
+      if (this.nextTickMs < nowMs) {
+        this.nextTickMs = nowMs + intervalMs;
+      }
+      this.pull(nowMs);
+    }
+
+    if (nowMs - this.lastStatsMs >= this.statsIntervalMs) {
+      this.publishStats(nowMs);
+    }
+  };
+
+  private pull(nowMs: number): void {
+    const output = this.jitterBuffer.pull(nowMs);
+
+    if (this.updateFallback(nowMs)) {
+      this.delivered++;
+      this.fallbackFrames++;
+      this.deliverWeights(this.fallbackSource!(), false);
+      return;
+    }
+
+    if (!output) return;
+
+    this.delivered++;
+    if (output.type === 'frame') {
+      const from = output.frame.blendshapes;
+      const to = output.next?.blendshapes ?? from;
+      for (let i = 0; i < BLENDSHAPE_COUNT; i++) {
+        const a = from[i] ?? 0;
+        this.weights[i] = a + ((to[i] ?? 0) - a) * output.alpha;
+      }
+      this.deliverWeights(this.weights, output.duplicate);
+    } else {
+      this.tuner?.reset();
+      this.emit({ type: 'final' });
+    }
+  }
+
+  /**
+   * Switch between agent frames and the fallback source; true = use the fallback
+   */
+  private updateFallback(nowMs: number): boolean {
+    const silentSinceMs = this.speakingSinceMs === null
+      ? null
+      : Math.max(this.speakingSinceMs, this.lastFrameArrivalMs);
+    const shouldRun = this.fallbackSource !== null
+      && silentSinceMs !== null
+      && nowMs - silentSinceMs > FALLBACK_GRACE_MS;
+
+    if (shouldRun !== this.fallbackActive) {
+      this.fallbackActive = shouldRun;
+      if (shouldRun) {
+        console.log(`[FrameScheduler] No agent frames for ${FALLBACK_GRACE_MS}ms while speaking - audio lip-sync fallback`);
+      } else {
+        const framesResumed = nowMs - this.lastFrameArrivalMs <= FALLBACK_GRACE_MS;
+        console.log(`[FrameScheduler] Audio lip-sync fallback off (${framesResumed ? 'agent frames resumed' : 'not speaking'})`);
+        // Let Unity relax the face if no real frames take over
+        if (!framesResumed) {
+          this.tuner?.reset();
+          this.emit({ type: 'final' });
+        }
+      }
+    }
+    return shouldRun;
+  }
+
+  private deliverWeights(weights: Float32Array, duplicate: boolean): void {
+    if (this.tuner) {
+      this.tuner.apply(weights, this.tunedWeights);
+    }
+    encodeBlendshapeFrame(this.tuner ? this.tunedWeights : weights, this.frameBytes);
+    this.emit({ type: 'frame', frame: this.frameBytes, duplicate });
+  }
+
+  private emit(output: ScheduledOutput): void {
+    this.listeners.forEach((listener) => listener(output));
+  }
+
+  private publishStats(nowMs: number): void {
+    const seconds = (nowMs - this.lastStatsMs) / 1000;
+    this.latestStats = {
+      ...this.jitterBuffer.getStats(),
+      received: this.received,
+      delivered: this.delivered,
+      receiveFps: Math.round((this.received - this.lastStatsReceived) / seconds),
+      deliverFps: Math.round((this.delivered - this.lastStatsDelivered) / seconds),
+      unitySendFps: Math.round((this.unityFramesSent - this.lastStatsUnityFramesSent) / seconds),
+      outputFps: this.frameRate.fps,
+      renderFps: this.frameRate.renderFps,
+      fallbackActive: this.fallbackActive,
+      fallbackFrames: this.fallbackFrames,
+    };
+    this.lastStatsMs = nowMs;
+    this.lastStatsReceived = this.received;
+    this.lastStatsDelivered = this.delivered;
+    this.lastStatsUnityFramesSent = this.unityFramesSent;
+    this.statsListeners.forEach((listener) => listener(this.latestStats));
+  }
+}
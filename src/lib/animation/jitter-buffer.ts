@@ -0,0 +1,208 @@
+const SEQUENCE_RESTART_GAP = 300;  // ~5s of 60fps frames
+
+type BufferedItem<T> =
+  | { kind: 'frame'; frame: T; mediaTimeMs: number }
+  | { kind: 'final'; mediaTimeMs: number };
+
+/**
+ * `next` / `alpha`: the upcoming frame and how far the playout clock is
+ * between the two (0..1), for interpolation. next is null when nothing is buffered.
+ */
+export type JitterBufferOutput<T> =
+  | { type: 'frame'; frame: T; duplicate: boolean; next: T | null; alpha: number }
+  | { type: 'final' };
+
+/**
+ * Position of a frame in the agent's stream (versioned frames only)
+ */
+export interface FrameTiming {
+  sequence: number | null;
+  timestampMs: number | null;
+}
+
+export interface JitterBufferOptions {
+  frameIntervalMs: number;   // Source frame spacing (agent sends 60fps)
+  outputIntervalMs: number;  // pull() spacing (frames in between are downsampled away; see setOutputInterval)
+  targetDelayMs: number;     // Extra delay to absorb network jitter
+}
+
+export interface JitterBufferStats {
+  buffered: number;
+  played: number;
+  dropped: number;      // Frames skipped to catch up with the playout clock (not counting downsampling)
+  duplicated: number;   // Ticks that repeated the last frame while waiting for late data
+  resyncs: number;      // Timeline shifts after a frame arrived already overdue
+  discarded: number;    // Duplicate / out-of-order frames (sequence not increasing)
+  gaps: number;         // Frames missing from the sequence (lost or never sent)
+}
+
+/**
+ * JitterBuffer - Schedules blendshape frames on the audio playout timeline
+ *
+ * Each frame gets a media time from its stream timestamp (or, for legacy
+ * frames without one, its position: anchor + index * frameInterval), not from
+ * its arrival time, so network jitter does not reach the avatar. A frame is due at
+ * mediaTime + targetDelay + audioPlayoutDelay, i.e. when the matching audio
+ * is actually heard.
+ *
+ * pull() is called at a fixed output rate and returns exactly one payload per tick:
+ * - the newest due frame (older due frames are dropped)
+ * - the previous frame again if no new frame is due yet (duplicate)
+ * - 'final' once every frame before it has been played (ordering preserved)
+ * Frame outputs also carry the next buffered frame and the playout position
+ * between the two, so the caller can interpolate at any output rate.
+ */
+export class JitterBuffer<T> {
+  private items: BufferedItem<T>[] = [];
+  private frameIntervalMs: number;
+  private outputIntervalMs: number;
+  private targetDelayMs: number;
+  private playoutDelayMs = 0;
+
+  // Current utterance (reset by 'final' / clear)
+  private anchorMs: number | null = null;
+  private anchorTimestampMs = 0;
+  private frameIndex = 0;
+  private lastSequence: number | null = null;
+  private lastPlayed: T | null = null;
+  private lastPlayedMediaTimeMs = 0;
+
+  private stats: JitterBufferStats = { buffered: 0, played: 0, dropped: 0, duplicated: 0, resyncs: 0, discarded: 0, gaps: 0 };
+
+  constructor({ frameIntervalMs, outputIntervalMs, targetDelayMs }: JitterBufferOptions) {
+    this.frameIntervalMs = frameIntervalMs;
+    this.outputIntervalMs = outputIntervalMs;
+    this.targetDelayMs = targetDelayMs;
+  }
+
+  /**
+   * Audio jitter-buffer delay of the agent's track (from RTC stats)
+   */
+  setPlayoutDelay(delayMs: number): void {
+    this.playoutDelayMs = Math.max(0, delayMs);
+  }
+
+  /**
+   * pull() spacing changed (adaptive frame rate)
+   */
+  setOutputInterval(intervalMs: number): void {
+    this.outputIntervalMs = intervalMs;
+  }
+
+  pushFrame(frame: T, arrivalMs: number, { sequence, timestampMs }: FrameTiming = { sequence: null, timestampMs: null }): void {
+    if (sequence !== null) {
+      // A large backwards jump is a new stream (agent restarted), not a stale frame
+      const last = this.lastSequence;
+      if (last !== null && sequence <= last && last - sequence < SEQUENCE_RESTART_GAP) {
+        this.stats.discarded++;
+        return;
+      }
+      if (last !== null && sequence > last + 1) {
+        this.stats.gaps += sequence - last - 1;
+      }
+      this.lastSequence = sequence;
+    }
+
+    if (this.anchorMs === null) {
+      this.anchorMs = arrivalMs;
+      this.anchorTimestampMs = timestampMs ?? 0;
+      this.frameIndex = 0;
+    }
+
+    const offsetMs = timestampMs !== null
+      ? timestampMs - this.anchorTimestampMs
+      : this.frameIndex * this.frameIntervalMs;
+    let mediaTimeMs = this.anchorMs + offsetMs;
+
+    // Sender stalled: the frame is overdue on arrival. Shift the timeline
+    // instead of dropping the rest of the utterance.
+    if (arrivalMs > mediaTimeMs + this.targetDelayMs) {
+      this.anchorMs += arrivalMs - mediaTimeMs;
+      mediaTimeMs = arrivalMs;
+      this.stats.resyncs++;
+    }
+
+    this.items.push({ kind: 'frame', frame, mediaTimeMs });
+    this.frameIndex++;
+  }
+
+  /**
+   * End of utterance - played right after the last frame
+   */
+  pushFinal(arrivalMs: number): void {
+    const last = this.items[this.items.length - 1];
+    const mediaTimeMs = this.anchorMs !== null && last
+      ? last.mediaTimeMs + this.frameIntervalMs
+      : arrivalMs;
+    this.items.push({ kind: 'final', mediaTimeMs });
+    this.anchorMs = null;
+    this.lastSequence = null;  // The next utterance may restart its sequence numbers
+  }
+
+  /**
+   * Drop everything (interrupted)
+   */
+  clear(): void {
+    this.items = [];
+    this.anchorMs = null;
+    this.lastSequence = null;
+    this.lastPlayed = null;
+  }
+
+  /**
+   * Output for this tick: the newest due frame (or the held last one), final, or null when idle
+   */
+  pull(nowMs: number): JitterBufferOutput<T> | null {
+    const playoutClockMs = nowMs - this.targetDelayMs - this.playoutDelayMs;
+
+    // Newest due frame, stopping at a control marker so it keeps its place
+    let dueFrames = 0;
+    let overdueFrames = 0;  // Already due before the previous tick
+    while (dueFrames < this.items.length) {
+      const item = this.items[dueFrames];
+      if (item.kind !== 'frame' || item.mediaTimeMs > playoutClockMs) break;
+      if (item.mediaTimeMs <= playoutClockMs - this.outputIntervalMs) overdueFrames++;
+      dueFrames++;
+    }
+
+    if (dueFrames > 0) {
+      const { frame, mediaTimeMs } = this.items[dueFrames - 1] as Extract<BufferedItem<T>, { kind: 'frame' }>;
+      this.items.splice(0, dueFrames);
+      this.stats.dropped += Math.min(overdueFrames, dueFrames - 1);
+      this.stats.played++;
+      this.lastPlayed = frame;
+      this.lastPlayedMediaTimeMs = mediaTimeMs;
+      return { type: 'frame', frame, duplicate: false, ...this.interpolationTarget(playoutClockMs) };
+    }
+
+    const next = this.items[0];
+    if (next?.kind === 'final' && next.mediaTimeMs <= playoutClockMs) {
+      this.items.shift();
+      this.lastPlayed = null;
+      return { type: 'final' };
+    }
+
+    // Between frames (output faster than the source) or mid-utterance underrun:
+    // hold the last frame, moving toward the next one when it is already here
+    if (this.lastPlayed && (next || this.anchorMs !== null)) {
+      const target = this.interpolationTarget(playoutClockMs);
+      if (!target.next) this.stats.duplicated++;
+      return { type: 'frame', frame: this.lastPlayed, duplicate: true, ...target };
+    }
+
+    return null;
+  }
+
+  private interpolationTarget(playoutClockMs: number): { next: T | null; alpha: number } {
+    const next = this.items[0];
+    if (next?.kind !== 'frame') return { next: null, alpha: 0 };
+
+    const span = next.mediaTimeMs - this.lastPlayedMediaTimeMs;
+    const alpha = span > 0 ? (playoutClockMs - this.lastPlayedMediaTimeMs) / span : 0;
+    return { next: next.frame, alpha: Math.min(1, Math.max(0, alpha)) };
+  }
+
+  getStats(): JitterBufferStats {
+    return { ...this.stats, buffered: this.items.length };
+  }
+}
@@ -0,0 +1,176 @@
+import { ARKIT_BLENDSHAPES, BLENDSHAPE_COUNT, type BlendshapeName } from './blendshapes';
+
+/**
+ * Per-character blendshape tuning (public/unity/{name}/tuning.json)
+ *
+ * {
+ *   "version": 1,
+ *   "defaults": { "smoothing": 0.2 },
+ *   "channels": {
+ *     "jawOpen": { "gain": 1.4, "max": 0.8 },
+ *     "mouthSmileLeft": { "remap": ["mouthSmileLeft", "mouthSmileRight"] }
+ *   }
+ * }
+ *
+ * Per source channel: value * gain + offset, clamped to [min, max] (0 or more), then
+ * smoothed (0 = off, up to 0.95 = heavy) and written to its remap targets
+ * (names or 0-51 indices; default itself, [] mutes the channel).
+ * Several sources on one target keep the largest value.
+ */
+export const TUNING_PROFILE_VERSION = 1;
+export const MAX_SMOOTHING = 0.95;
+
+export interface ChannelTuning {
+  gain?: number;
+  offset?: number;
+  min?: number;
+  max?: number;
+  smoothing?: number;
+  remap?: (BlendshapeName | number)[];
+}
+
+export interface TuningProfile {
+  version: number;
+  defaults?: ChannelTuning;
+  channels?: Partial<Record<BlendshapeName, ChannelTuning>>;
+}
+
+export const DEFAULT_TUNING_PROFILE: TuningProfile = { version: TUNING_PROFILE_VERSION, channels: {} };
+
+export class TuningProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TuningProfileError';
+  }
+}
+
+const NUMERIC_FIELDS = ['gain', 'offset', 'min', 'max', 'smoothing'] as const;
+
+/**
+ * Validate a parsed tuning.json
+ */
+export function parseTuningProfile(json: unknown): TuningProfile {
+  if (!json || typeof json !== 'object') {
+    throw new TuningProfileError('Profile must be an object');
+  }
+  const { version, defaults, channels } = json as Record<string, unknown>;
+  if (version !== TUNING_PROFILE_VERSION) {
+    throw new TuningProfileError(`Unsupported profile version: ${String(version)}`);
+  }
+
+  const profile: TuningProfile = { version, channels: {} };
+  if (defaults !== undefined) {
+    profile.defaults = parseChannel('defaults', defaults);
+  }
+  if (channels !== undefined) {
+    if (!channels || typeof channels !== 'object') {
+      throw new TuningProfileError('"channels" must be an object');
+    }
+    for (const [name, tuning] of Object.entries(channels)) {
+      if (!ARKIT_BLENDSHAPES.includes(name as BlendshapeName)) {
+        throw new TuningProfileError(`Unknown blendshape: ${name}`);
+      }
+      profile.channels![name as BlendshapeName] = parseChannel(name, tuning);
+    }
+  }
+  return profile;
+}
+
+function parseChannel(name: string, value: unknown): ChannelTuning {
+  if (!value || typeof value !== 'object') {
+    throw new TuningProfileError(`${name}: tuning must be an object`);
+  }
+  const raw = value as Record<string, unknown>;
+  const tuning: ChannelTuning = {};
+
+  for (const field of NUMERIC_FIELDS) {
+    if (raw[field] === undefined) continue;
+    if (typeof raw[field] !== 'number' || !Number.isFinite(raw[field])) {
+      throw new TuningProfileError(`${name}.${field} must be a number`);
+    }
+    tuning[field] = raw[field] as number;
+  }
+  if (tuning.smoothing !== undefined && (tuning.smoothing < 0 || tuning.smoothing > MAX_SMOOTHING)) {
+    throw new TuningProfileError(`${name}.smoothing must be in [0, ${MAX_SMOOTHING}]`);
+  }
+  // Weights are 0-1 - a negative clamp would be lost when merging into remap targets
+  for (const field of ['min', 'max'] as const) {
+    if (tuning[field] !== undefined && tuning[field] < 0) {
+      throw new TuningProfileError(`${name}.${field} must be 0 or more`);
+    }
+  }
+
+  if (raw.remap !== undefined) {
+    if (!Array.isArray(raw.remap)) {
+      throw new TuningProfileError(`${name}.remap must be an array`);
+    }
+    tuning.remap = raw.remap.map((target) => {
+      resolveChannel(target, `${name}.remap`);
+      return target as BlendshapeName | number;
+    });
+  }
+  return tuning;
+}
+
+function resolveChannel(target: unknown, context: string): number {
+  const index = typeof target === 'number' ? target : ARKIT_BLENDSHAPES.indexOf(target as BlendshapeName);
+  if (!Number.isInteger(index) || index < 0 || index >= BLENDSHAPE_COUNT) {
+    throw new TuningProfileError(`${context}: unknown channel ${String(target)}`);
+  }
+  return index;
+}
+
+/**
+ * BlendshapeTuner - Applies a TuningProfile to 52-channel frames
+ * Keeps per-channel smoothing state; reset() at utterance boundaries.
+ */
+export class BlendshapeTuner {
+  private gain = new Float32Array(BLENDSHAPE_COUNT);
+  private offset = new Float32Array(BLENDSHAPE_COUNT);
+  private min = new Float32Array(BLENDSHAPE_COUNT);
+  private max = new Float32Array(BLENDSHAPE_COUNT);
+  private smoothing = new Float32Array(BLENDSHAPE_COUNT);
+  private targets: number[][] = [];
+  private smoothed = new Float32Array(BLENDSHAPE_COUNT);
+  private hasPrevious = false;
+
+  constructor(profile: TuningProfile) {
+    const defaults = profile.defaults ?? {};
+    ARKIT_BLENDSHAPES.forEach((name, i) => {
+      const tuning = { ...defaults, ...profile.channels?.[name] };
+      this.gain[i] = tuning.gain ?? 1;
+      this.offset[i] = tuning.offset ?? 0;
+      this.min[i] = tuning.min ?? 0;
+      this.max[i] = tuning.max ?? 1;
+      this.smoothing[i] = tuning.smoothing ?? 0;
+      this.targets[i] = tuning.remap
+        ? tuning.remap.map((target) => resolveChannel(target, `${name}.remap`))
+        : [i];
+    });
+  }
+
+  /**
+   * input and output must not be the same array
+   */
+  apply(input: Float32Array, output: Float32Array): void {
+    output.fill(0);
+    for (let i = 0; i < BLENDSHAPE_COUNT; i++) {
+      let value = (input[i] ?? 0) * this.gain[i] + this.offset[i];
+      value = Math.min(this.max[i], Math.max(this.min[i], value));
+
+      if (this.hasPrevious && this.smoothing[i] > 0) {
+        value = this.smoothed[i] + (1 - this.smoothing[i]) * (value - this.smoothed[i]);
+      }
+      this.smoothed[i] = value;
+
+      for (const target of this.targets[i]) {
+        if (value > output[target]) output[target] = value;
+      }
+    }
+    this.hasPrevious = true;
+  }
+
+  reset(): void {
+    this.hasPrevious = false;
+  }
+}
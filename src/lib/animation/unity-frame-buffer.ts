@@ -0,0 +1,137 @@
+import { FRAME_BYTE_LENGTH } from './blendshapes';
+
+/**
+ * Shared frame ring buffer in the Unity WASM heap
+ *
+ * ReactBridge allocates the buffer (Marshal.AllocHGlobal) and registers it
+ * through its jslib plugin, which dispatches UNITY_BUFFER_EVENT with the
+ * pointer and a heap getter. React writes frames straight into the heap and
+ * ReactBridge drains new slots every Update - no string per frame.
+ *
+ * Layout (little-endian, int32 words unless noted):
+ *
+ *   Header (16 bytes)
+ *   0    version (1, written by Unity)
+ *   4    writeCount (React: slots written so far)
+ *   8    readCount (Unity: slots consumed so far)
+ *   12   slotCount (written by Unity)
+ *
+ *   Slot i at 16 + (i % slotCount) * SLOT_BYTE_LENGTH
+ *   0    kind (SlotKind)
+ *   4    208 bytes: 52 float32 blendshapes (kind FRAME only)
+ *
+ * writeCount is bumped after the slot is filled, so Unity never sees a
+ * partial frame. Unity drains slots in order, so 'final' stays behind the
+ * utterance's frames. 'interrupted' still goes through SendMessage (it must
+ * act immediately); ReactBridge then skips pending slots (readCount = writeCount).
+ */
+export const UNITY_BUFFER_EVENT = 'RegisterAnimationBuffer';
+export const UNITY_BUFFER_VERSION = 1;
+
+const HEADER_BYTE_LENGTH = 16;
+const SLOT_BYTE_LENGTH = 4 + FRAME_BYTE_LENGTH;
+
+const HeaderWord = {
+  VERSION: 0,
+  WRITE_COUNT: 1,
+  READ_COUNT: 2,
+  SLOT_COUNT: 3,
+} as const;
+
+export const SlotKind = {
+  FRAME: 1,
+  FINAL: 2,
+} as const;
+
+/**
+ * Returns the current heap view (HEAPU8 is replaced when WASM memory grows)
+ */
+export type UnityHeapGetter = () => { buffer: ArrayBufferLike };
+
+export class UnityFrameBufferError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnityFrameBufferError';
+  }
+}
+
+/**
+ * UnityFrameBuffer - Writes animation frames into ReactBridge's ring buffer
+ *
+ * writeFrame() / writeFinal() return false when the ring is full (Unity not draining, e.g. the
+ * tab is in the background); the caller decides whether to drop or fall back.
+ */
+export class UnityFrameBuffer {
+  private ptr: number;
+  private getHeap: UnityHeapGetter;
+
+  // Views are cached per ArrayBuffer and rebuilt after memory growth
+  private heapBuffer: ArrayBufferLike | null = null;
+  private words!: Int32Array;   // int32 view over header + slots
+  private bytes!: Uint8Array;
+  private slotCount = 0;
+
+  constructor(ptr: number, getHeap: UnityHeapGetter) {
+    if (!Number.isInteger(ptr) || ptr <= 0 || ptr % 4 !== 0) {
+      throw new UnityFrameBufferError(`Invalid buffer pointer: ${ptr}`);
+    }
+    this.ptr = ptr;
+    this.getHeap = getHeap;
+
+    this.refreshViews();
+    const version = this.words[HeaderWord.VERSION];
+    if (version !== UNITY_BUFFER_VERSION) {
+      throw new UnityFrameBufferError(`Unsupported buffer version: ${version}`);
+    }
+    if (this.slotCount <= 0) {
+      throw new UnityFrameBufferError(`Invalid slot count: ${this.slotCount}`);
+    }
+  }
+
+  /**
+   * Write a 208-byte blendshape frame
+   */
+  writeFrame(frame: Uint8Array): boolean {
+    if (frame.length !== FRAME_BYTE_LENGTH) {
+      throw new UnityFrameBufferError(`Frame must be ${FRAME_BYTE_LENGTH} bytes, got ${frame.length}`);
+    }
+    return this.write(SlotKind.FRAME, frame);
+  }
+
+  /**
+   * Queue end of utterance behind the frames already written
+   */
+  writeFinal(): boolean {
+    return this.write(SlotKind.FINAL, null);
+  }
+
+  private write(kind: number, frame: Uint8Array | null): boolean {
+    this.refreshViews();
+
+    const writeCount = this.words[HeaderWord.WRITE_COUNT];
+    const readCount = this.words[HeaderWord.READ_COUNT];
+    if (writeCount - readCount >= this.slotCount) {
+      return false;
+    }
+
+    const slotOffset = this.ptr + HEADER_BYTE_LENGTH + (writeCount % this.slotCount) * SLOT_BYTE_LENGTH;
+    this.words[(slotOffset - this.ptr) / 4] = kind;  // Slots are 4-byte aligned
+    if (frame) {
+      this.bytes.set(frame, slotOffset + 4);
+    }
+
+    // Publish after the slot is complete
+    this.words[HeaderWord.WRITE_COUNT] = writeCount + 1;
+    return true;
+  }
+
+  private refreshViews(): void {
+    const buffer = this.getHeap().buffer;
+    if (buffer === this.heapBuffer) return;
+
+    this.heapBuffer = buffer;
+    this.bytes = new Uint8Array(buffer);
+    this.slotCount = new Int32Array(buffer, this.ptr, 4)[HeaderWord.SLOT_COUNT];
+    this.words = new Int32Array(buffer, this.ptr, (HEADER_BYTE_LENGTH + Math.max(this.slotCount, 0) * SLOT_BYTE_LENGTH) / 4);
+  }
+}
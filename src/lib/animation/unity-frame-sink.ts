@@ -0,0 +1,60 @@
+import type { ScheduledOutputListener } from './frame-scheduler';
+import type { UnityFrameBuffer } from './unity-frame-buffer';
+import type { UnityBridge } from '@/lib/unity/bridge';
+
+/**
+ * Scheduler listener that forwards animation output to ReactBridge
+ *
+ * Uses the shared heap buffer when the build registered one, otherwise the
+ * SendMessage string path ('OnAnimationData': comma-joined frame bytes,
+ * 'final', 'interrupted'). onFrameSent is called for every frame Unity actually
+ * got (not dropped on a full ring or before the instance is loaded).
+ */
+export function createUnityFrameSink(
+  bridge: UnityBridge,
+  frameBuffer: UnityFrameBuffer | null,
+  onFrameSent?: () => void
+): ScheduledOutputListener {
+  let firstFrameTime: number | null = null;
+  let sentCount = 0;
+  let droppedCount = 0;
+
+  return (output) => {
+    // 즉시 처리 필요 - 항상 SendMessage
+    if (output.type === 'interrupted') {
+      bridge.sendAnimationData('interrupted');
+      return;
+    }
+
+    const now = performance.now();
+    if (firstFrameTime === null) {
+      firstFrameTime = now;
+      console.log('[AvatarView -> Unity] First frame sent');
+    }
+    sentCount++;
+
+    // 공유 버퍼 (zero-copy) 우선, 미지원 빌드는 문자열 경로
+    if (frameBuffer) {
+      const written = output.type === 'frame' ? frameBuffer.writeFrame(output.frame) : frameBuffer.writeFinal();
+      if (written && output.type === 'frame') onFrameSent?.();
+      if (!written) {
+        // Ring full (Unity not draining): drop frames, but never lose 'final'
+        if (output.type === 'frame') {
+          droppedCount++;
+        } else {
+          bridge.sendAnimationData('final');
+        }
+      }
+    } else {
+      const frameString = output.type === 'frame' ? Array.from(output.frame).join(',') : 'final';
+      if (bridge.sendAnimationData(frameString) && output.type === 'frame') onFrameSent?.();
+    }
+
+    if (sentCount % 20 === 0) {
+      const elapsed = now - firstFrameTime;
+      const avgInterval = elapsed / sentCount;
+      const path = frameBuffer ? `shared buffer, ${droppedCount} dropped` : 'string';
+      console.log(`[AvatarView -> Unity] Sent ${sentCount} frames, ~${(1000 / avgInterval).toFixed(1)} FPS (${path})`);
+    }
+  };
+}
@@ -1,4 +1,5 @@
-import { SESSION_API_URL, SESSION_API_KEY, ADK_APP_NAME } from '@/lib/config';
+import { SESSION_API_PROXY_URL } from '@/lib/config';
+import { identityFetch } from '@/lib/livekit';
 import { ChatMessage } from '@/lib/types';
 
 /**
@@ -42,84 +43,62 @@ class SessionAPIError extends Error {
  * Handles communication with the Session API server for syncing
  * avatar conversations with ADK sessions.
  *
+ * All calls go through the server-side proxy (/api/session), which holds
+ * SESSION_API_KEY and derives user_id from the signed identity cookie
+ * (issued by the server on first contact).
+ *
  * API Docs: SESSION_API.md
  */
 class SessionAPIClient {
-  private baseURL: string;
-  private apiKey: string;
-
-  constructor(baseURL?: string, apiKey?: string) {
-    this.baseURL = baseURL || SESSION_API_URL;
-    this.apiKey = apiKey || SESSION_API_KEY;
-  }
-
-  private get headers(): HeadersInit {
-    const headers: HeadersInit = {
-      'Content-Type': 'application/json',
-    };
-
-    if (this.apiKey) {
-      headers['Authorization'] = `Bearer ${this.apiKey}`;
-    }
-
-    return headers;
-  }
+  private proxyURL: string;
 
-  /**
-   * Check if Session API is configured
-   */
-  isConfigured(): boolean {
-    return Boolean(this.baseURL);
+  constructor(proxyURL?: string) {
+    this.proxyURL = proxyURL || SESSION_API_PROXY_URL;
   }
 
   /**
-   * Create a new session
-   * POST /
+   * Internal: POST an action to the proxy
    */
-  async createSession(userId: string, sessionId: string): Promise<SessionResponse> {
-    if (!this.isConfigured()) {
-      throw new SessionAPIError('Session API URL not configured', 0);
-    }
-
-    console.log('[SessionAPI] Creating session:', { userId, sessionId });
-
-    const response = await fetch(this.baseURL, {
+  private async post<T>(body: Record<string, unknown>, errorPrefix: string): Promise<T> {
+    const response = await identityFetch(this.proxyURL, {
       method: 'POST',
-      headers: this.headers,
-      body: JSON.stringify({
-        user_id: userId,
-        session_id: sessionId,
-        app_name: ADK_APP_NAME,
-      }),
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
     });
 
     if (!response.ok) {
       const errorText = await response.text();
       throw new SessionAPIError(
-        `Failed to create session: ${response.status} - ${errorText}`,
+        `${errorPrefix}: ${response.status} - ${errorText}`,
         response.status
       );
     }
 
-    const data = await response.json();
+    return response.json();
+  }
+
+  /**
+   * Create a new session (owned by the caller's identity)
+   */
+  async createSession(sessionId: string): Promise<SessionResponse> {
+    console.log('[SessionAPI] Creating session:', { sessionId });
+
+    const data = await this.post<SessionResponse>(
+      { action: 'createSession', sessionId },
+      'Failed to create session'
+    );
     console.log('[SessionAPI] Session created:', data);
     return data;
   }
 
   /**
-   * Inject batch events (POST /{session_id}/events/batch)
-   * Automatically creates session if it doesn't exist (404 handling)
+   * Inject batch events (POST /{session_id}/events/batch via proxy)
+   * The proxy creates the session first if it doesn't exist
    */
   async injectBatchEvents(
     sessionId: string,
-    userId: string,
     messages: ChatMessage[]
   ): Promise<BatchEventResponse | null> {
-    if (!this.isConfigured()) {
-      console.warn('[SessionAPI] Session API URL not configured, skipping batch update');
-      return null;
-    }
-
     // Convert ChatMessage[] to ConversationMessage[]
     const conversations = this.toConversationMessages(messages);
 
@@ -130,57 +109,25 @@ class SessionAPIClient {
 
     console.log('[SessionAPI] Injecting batch events:', {
       sessionId,
-      userId,
       messageCount: conversations.length,
     });
 
     try {
-      // First attempt
-      return await this.postBatch(sessionId, userId, conversations);
+      const data = await this.post<BatchEventResponse>(
+        { action: 'injectBatchEvents', sessionId, conversations },
+        'Failed to inject batch events'
+      );
+      console.log('[SessionAPI] Batch events injected:', data);
+      return data;
     } catch (error) {
-      if (error instanceof SessionAPIError && error.status === 404) {
-        // Session doesn't exist - create it and retry
-        console.log('[SessionAPI] Session not found, creating...');
-        await this.createSession(userId, sessionId);
-        return await this.postBatch(sessionId, userId, conversations);
+      if (error instanceof SessionAPIError && error.status === 503) {
+        console.warn('[SessionAPI] Session API not configured on server, skipping batch update');
+        return null;
       }
       throw error;
     }
   }
 
-  /**
-   * Internal: POST to batch endpoint
-   */
-  private async postBatch(
-    sessionId: string,
-    userId: string,
-    conversations: ConversationMessage[]
-  ): Promise<BatchEventResponse> {
-    const url = `${this.baseURL}/${sessionId}/events/batch`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: this.headers,
-      body: JSON.stringify({
-        user_id: userId,
-        conversations,
-        app_name: ADK_APP_NAME,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new SessionAPIError(
-        `Failed to inject batch events: ${response.status} - ${errorText}`,
-        response.status
-      );
-    }
-
-    const data = await response.json();
-    console.log('[SessionAPI] Batch events injected:', data);
-    return data;
-  }
-
   /**
    * Convert ChatMessage[] to ConversationMessage[]
    * - Only includes final messages (isFinal === true)
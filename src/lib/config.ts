@@ -3,27 +3,54 @@
  * Controls chat mode (ADK vs LiveKit) and API URLs
  */
 
-// Chat mode: 'adk' or 'livekit'
+// Chat mode: 'adk', 'livekit' or 'mock' (in-browser fake agent, no LiveKit server needed)
 export const CHAT_MODE = import.meta.env.VITE_CHAT_MODE || 'livekit';
 export const isADKMode = CHAT_MODE === 'adk';
 export const isLiveKitMode = CHAT_MODE === 'livekit';
+export const isMockMode = CHAT_MODE === 'mock';
 
-// ADK API URL
-export const ADK_URL = import.meta.env.VITE_ADK_URL || '';
-export const ADK_USER_ID = import.meta.env.VITE_ADK_USER_ID || 'web_user';
-export const ADK_APP_NAME = import.meta.env.VITE_ADK_APP_NAME || 'rag_agent';
+// Debug tools (URL flags, no rebuild needed):
+// ?replay plays back a recorded session instead of connecting (LiveKit / mock mode)
+// ?record shows the session recorder outside dev builds
+// ?diag opens the animation diagnostics overlay (also Ctrl+Shift+D)
+// ?legacy makes the mock agent send legacy (untagged 208-byte) frames instead of v1
+const debugParams = new URLSearchParams(window.location.search);
+export const isReplayMode = !isADKMode && debugParams.has('replay');
+export const isRecorderEnabled = import.meta.env.DEV || debugParams.has('record');
+export const showDiagnosticsOnStart = debugParams.has('diag');
+export const mockFrameProtocol: 'v1' | 'legacy' = debugParams.has('legacy') ? 'legacy' : 'v1';
 
-// Session API configuration (for syncing avatar conversations with ADK sessions)
-export const SESSION_API_URL = import.meta.env.VITE_SESSION_API_URL || '';
-export const SESSION_API_KEY = import.meta.env.VITE_SESSION_API_KEY || '';
+// ADK proxy (ADK_URL, ADK_APP_NAME and ADK_AUTH_TOKEN live server-side)
+export const ADK_PROXY_URL = '/api/adk';
+
+// Session API proxy (for syncing avatar conversations with ADK sessions)
+// The Session API URL and key live server-side (SESSION_API_URL / SESSION_API_KEY)
+export const SESSION_API_PROXY_URL = '/api/session';
 
 // LiveKit configuration
 export const LIVEKIT_URL = import.meta.env.VITE_LIVEKIT_URL || '';
-export const ROOM_PREFIX = import.meta.env.VITE_ROOM_PREFIX || 'avatar';
+
+// Agent to dispatch explicitly (empty = server default / automatic dispatch)
+export const AGENT_NAME = import.meta.env.VITE_AGENT_NAME || '';
+
+// How long to wait for the agent to join after the room connects
+export const AGENT_JOIN_TIMEOUT_MS = Number(import.meta.env.VITE_AGENT_JOIN_TIMEOUT_MS) || 15000;
+
+// Lip-sync jitter buffer: extra delay (ms) on top of the agent audio's playout delay
+export const ANIMATION_TARGET_DELAY_MS = Number(import.meta.env.VITE_ANIMATION_TARGET_DELAY_MS ?? 100) || 0;
+
+// Avatar update rate ceiling; lowered automatically on slow devices (interpolated in between frames)
+export const AVATAR_TARGET_FPS = Math.min(60, Math.max(10, Number(import.meta.env.VITE_AVATAR_TARGET_FPS) || 30));
 
 // Unity build name
 export const UNITY_BUILD_NAME = import.meta.env.VITE_UNITY_BUILD_NAME || 'avatar';
 
+// How long the paused Unity avatar stays loaded while the chat screen is shown (0 = unload right away)
+// Default 5 minutes; 1 minute where the memory-pressure unload cannot work (performance.memory is
+// Chromium-only, so Safari/iOS and Firefox rely on this limit alone)
+const canReportMemory = 'memory' in performance;
+export const UNITY_KEEP_WARM_MS = Number(import.meta.env.VITE_UNITY_KEEP_WARM_MS || (canReportMemory ? 300000 : 60000)) || 0;
+
 // ============================================
 // UI Configuration
 // ============================================
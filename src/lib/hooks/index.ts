@@ -3,3 +3,13 @@ export { useTrackVolume } from './useTrackVolume';
 export { useLiveKit } from './useLiveKit';
 export { useAnimationData } from './useAnimationData';
 export { useADK } from './useADK';
+export { useAgentPresence } from './useAgentPresence';
+export { useAudioPlayoutDelay } from './useAudioPlayoutDelay';
+export { useUnityFrameBuffer } from './useUnityFrameBuffer';
+export { useAnimationStats } from './useAnimationStats';
+export { useTuningProfile } from './useTuningProfile';
+export { useLipSyncFallback } from './useLipSyncFallback';
+export { useConnectionDiagnostics } from './useConnectionDiagnostics';
+export { useUnityBridge } from './useUnityBridge';
+export { useAvatarManifest } from './useAvatarManifest';
+export { useUnityBuildCache } from './useUnityBuildCache';
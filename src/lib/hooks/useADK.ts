@@ -1,5 +1,6 @@
 import { useState, useCallback } from 'react';
-import { ADK_URL, ADK_APP_NAME, ADK_USER_ID } from '@/lib/config';
+import { ADK_PROXY_URL } from '@/lib/config';
+import { identityFetch } from '@/lib/livekit';
 import { useSessionStore } from '@/lib/store/session-store';
 import { useSessionIdStore } from '@/lib/store/session-id-store';
 import { ChatMessage } from '@/lib/types';
@@ -14,9 +15,10 @@ interface UseADKReturn {
 /**
  * useADK - Hook for ADK (Agent Development Kit) API communication
  *
- * ADK API Format:
- * - Endpoint: /run_sse (streaming) or /run (sync)
- * - Request: { appName, userId, sessionId, newMessage: { role: "user", parts: [{ text }] } }
+ * ADK API Format (via /api/adk proxy):
+ * - Request: { action: "run", sessionId, parts: [{ text }], streaming }
+ * - The proxy adds appName, the server-validated userId and auth headers,
+ *   then forwards to /run_sse and streams the response through
  * - Response (SSE): data: { content: { role: "model", parts: [{ text }] }, partial: boolean }
  *
  * Session Management:
@@ -34,20 +36,22 @@ export function useADK(): UseADKReturn {
 
   /**
    * Create ADK session (required before first message)
-   * POST /apps/{appName}/users/{userId}/sessions/{sessionId}
+   * Proxied to POST /apps/{appName}/users/{userId}/sessions/{sessionId}
    */
   const createSession = useCallback(async () => {
     // Check store state (persists across remounts)
     if (isSessionCreated) return true;
 
-    const sessionUrl = `${ADK_URL}/apps/${ADK_APP_NAME}/users/${ADK_USER_ID}/sessions/${sessionId}`;
-    console.log('[useADK] Creating session:', sessionUrl);
+    console.log('[useADK] Creating session:', sessionId);
 
     try {
-      const response = await fetch(sessionUrl, {
+      const response = await identityFetch(ADK_PROXY_URL, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({}),
+        body: JSON.stringify({
+          action: 'createSession',
+          sessionId,
+        }),
       });
 
       if (!response.ok) {
@@ -102,26 +106,22 @@ export function useADK(): UseADKReturn {
         throw new Error('Failed to create session');
       }
 
-      // ADK API request format
+      // Proxy request format (appName/userId are added server-side)
       const requestBody = {
-        appName: ADK_APP_NAME,
-        userId: ADK_USER_ID,
+        action: 'run',
         sessionId: sessionId,
-        newMessage: {
-          role: 'user',
-          parts: [{ text: messageText }], // Include prefix for Agent routing
-        },
+        parts: [{ text: messageText }], // Include prefix for Agent routing
         streaming: true, // Enable token-level streaming for real-time response
       };
 
       console.log('[useADK] Sending request:', {
-        url: `${ADK_URL}/run_sse`,
+        url: ADK_PROXY_URL,
         sessionId: sessionId,
         text: messageText,
         hasPrefix: !!toolPrefix,
       });
 
-      const response = await fetch(`${ADK_URL}/run_sse`, {
+      const response = await identityFetch(ADK_PROXY_URL, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
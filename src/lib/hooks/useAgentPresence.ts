@@ -0,0 +1,79 @@
+import { useEffect, useState } from 'react';
+import { ConnectionState, RoomEvent, type RemoteParticipant, type Room } from 'livekit-client';
+import { findAgentParticipant, isAgentParticipant } from '@/lib/livekit';
+import { AgentUnavailableReason } from '@/lib/types';
+
+/**
+ * Agent presence tracking
+ *
+ * - join_timeout: no agent joined within joinTimeoutMs after the room connected
+ *   (restarted on every (re)connect, e.g. after rejoining with a fresh token)
+ * - agent_left: the agent left while we are still connected
+ *
+ * Returns null while the agent is present or still expected.
+ * Recovers (back to null) if an agent joins later.
+ */
+export function useAgentPresence(room: Room, joinTimeoutMs: number): AgentUnavailableReason | null {
+  const [unavailableReason, setUnavailableReason] = useState<AgentUnavailableReason | null>(null);
+
+  useEffect(() => {
+    let joinTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const clearJoinTimer = () => {
+      if (joinTimer) {
+        clearTimeout(joinTimer);
+        joinTimer = null;
+      }
+    };
+
+    const handleConnected = () => {
+      clearJoinTimer();
+      if (findAgentParticipant(room)) {
+        setUnavailableReason(null);
+        return;
+      }
+
+      joinTimer = setTimeout(() => {
+        joinTimer = null;
+        if (!findAgentParticipant(room)) {
+          console.warn(`[useAgentPresence] No agent joined within ${joinTimeoutMs}ms`);
+          setUnavailableReason('join_timeout');
+        }
+      }, joinTimeoutMs);
+    };
+
+    const handleParticipantConnected = (participant: RemoteParticipant) => {
+      if (!isAgentParticipant(participant)) return;
+      clearJoinTimer();
+      setUnavailableReason(null);
+      console.log('[useAgentPresence] Agent joined:', participant.identity);
+    };
+
+    const handleParticipantDisconnected = (participant: RemoteParticipant) => {
+      if (!isAgentParticipant(participant)) return;
+      // Participants also "leave" when we disconnect ourselves; only count it while connected
+      if (room.state !== ConnectionState.Connected || findAgentParticipant(room)) return;
+      console.warn('[useAgentPresence] Agent left the room:', participant.identity);
+      setUnavailableReason('agent_left');
+    };
+
+    if (room.state === ConnectionState.Connected) {
+      handleConnected();
+    }
+
+    room.on(RoomEvent.Connected, handleConnected);
+    room.on(RoomEvent.Disconnected, clearJoinTimer);
+    room.on(RoomEvent.ParticipantConnected, handleParticipantConnected);
+    room.on(RoomEvent.ParticipantDisconnected, handleParticipantDisconnected);
+
+    return () => {
+      clearJoinTimer();
+      room.off(RoomEvent.Connected, handleConnected);
+      room.off(RoomEvent.Disconnected, clearJoinTimer);
+      room.off(RoomEvent.ParticipantConnected, handleParticipantConnected);
+      room.off(RoomEvent.ParticipantDisconnected, handleParticipantDisconnected);
+    };
+  }, [room, joinTimeoutMs]);
+
+  return unavailableReason;
+}
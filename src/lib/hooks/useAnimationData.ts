@@ -1,53 +1,89 @@
 import { useEffect, useState, useRef } from 'react';
 import { useRoomContext } from '@livekit/components-react';
-import { RoomEvent } from 'livekit-client';
+import { RoomEvent, type DataPacket_Kind, type RemoteParticipant } from 'livekit-client';
+import { isAgentParticipant } from '../livekit';
+import { ANIMATION_TARGET_DELAY_MS, AVATAR_TARGET_FPS } from '../config';
+import { AnimationFrameError, decodeAnimationMessage } from '../animation/frame-decoder';
+import { FrameScheduler } from '../animation/frame-scheduler';
+import { useAudioPlayoutDelay } from './useAudioPlayoutDelay';
+
+const SOURCE_FRAME_INTERVAL_MS = 1000 / 60;  // Agent sends 60fps
 
 /**
  * Animation data hook for Unity lip-sync
- * Receives 208-byte frames (52 ARKit blendshapes) from Agent
- * Downsamples from 60fps to 20fps (3:1 ratio)
+ * Receives animation frames from Agent via decodeAnimationMessage:
+ * versioned frames on ANIMATION_TOPIC, or legacy 208-byte frames (52 ARKit blendshapes)
+ *
+ * Frames are fed to a FrameScheduler, which releases them on the agent audio's
+ * playout timeline (target delay + WebRTC audio jitter-buffer delay) from a
+ * requestAnimationFrame loop, at an adaptive rate up to AVATAR_TARGET_FPS
+ * with interpolated weights. Consumers subscribe to the returned
+ * scheduler - frames never go through React state, so nothing re-renders per frame.
+ * - 'final' is queued behind the utterance's frames (order preserved)
+ * - 'interrupted' clears the buffer and is propagated immediately
  */
-export function useAnimationData() {
+export function useAnimationData(): FrameScheduler {
   const room = useRoomContext();
-  const [latestFrame, setLatestFrame] = useState<Uint8Array | null>(null);
-  const [frameCount, setFrameCount] = useState(0);
-  const [interruptSignal, setInterruptSignal] = useState(0);
 
-  // Frame queue for buffering
-  const frameQueue = useRef<Uint8Array[]>([]);
+  const [scheduler] = useState(() => new FrameScheduler({
+    sourceIntervalMs: SOURCE_FRAME_INTERVAL_MS,
+    targetFps: AVATAR_TARGET_FPS,
+    targetDelayMs: ANIMATION_TARGET_DELAY_MS,
+  }));
+
+  // Agent audio playout delay (ref for logging inside the data handler)
+  const playoutDelayMs = useAudioPlayoutDelay(room);
+  const playoutDelayRef = useRef(playoutDelayMs);
+  playoutDelayRef.current = playoutDelayMs;
 
   // Timing tracking
   const firstFrameTime = useRef<number | null>(null);
   const totalFramesReceived = useRef(0);
-  const framesDequeued = useRef(0);
 
-  // 1. Receive frames from Agent and queue them
+  useEffect(() => {
+    scheduler.setPlayoutDelay(playoutDelayMs);
+  }, [scheduler, playoutDelayMs]);
+
+  // 1. Receive frames from Agent and schedule them
   useEffect(() => {
     if (!room) return;
 
-    const handleDataReceived = (payload: Uint8Array, participant: { identity?: string } | undefined) => {
+    const handleDataReceived = (
+      payload: Uint8Array,
+      participant?: RemoteParticipant,
+      _kind?: DataPacket_Kind,
+      topic?: string
+    ) => {
       // Only process agent data
-      if (!participant?.identity?.startsWith('agent')) {
+      if (!isAgentParticipant(participant)) {
         return;
       }
 
-      // 208 bytes = animation data (52 floats x 4 bytes)
-      if (payload.length === 208) {
-        const now = performance.now();
+      let message;
+      try {
+        message = decodeAnimationMessage(payload, topic);
+      } catch (error) {
+        if (error instanceof AnimationFrameError) {
+          console.warn('[AnimationData] Dropping malformed frame:', error.message);
+          return;
+        }
+        throw error;
+      }
+      if (!message) return;
+
+      const now = performance.now();
+
+      if (message.type === 'frame') {
+        const { frame } = message;
 
         // First frame
         if (firstFrameTime.current === null) {
           firstFrameTime.current = now;
-          console.log('[AnimationData] First frame received from Agent');
+          console.log(`[AnimationData] First frame received from Agent (protocol v${frame.version})`);
         }
 
         totalFramesReceived.current++;
 
-        // Downsample: Only add every 3rd frame to queue (60fps -> 20fps)
-        if (totalFramesReceived.current % 3 === 0) {
-          frameQueue.current.push(payload);
-        }
-
         // Log every 60 frames
         if (totalFramesReceived.current % 60 === 0) {
           const elapsed = now - (firstFrameTime.current || now);
@@ -55,32 +91,23 @@ export function useAnimationData() {
           const receiveFPS = avgInterval > 0 ? 1000 / avgInterval : 0;
 
           console.log(`[AnimationData] Received ${totalFramesReceived.current} frames:`, {
-            queueSize: frameQueue.current.length,
-            queuedFrames: Math.floor(totalFramesReceived.current / 3),
-            downsample: '3:1 (60fps->20fps)',
+            ...scheduler.getStats(),
+            targetDelayMs: ANIMATION_TARGET_DELAY_MS,
+            audioPlayoutDelayMs: playoutDelayRef.current,
             elapsedMs: Math.round(elapsed),
             receiveFPS: receiveFPS.toFixed(1),
           });
         }
       }
       // Control signals ("final" or "interrupted")
+      else if (message.type === 'final') {
+        console.log('[AnimationData] Final signal - queued after buffered frames');
+      }
       else {
-        try {
-          const message = new TextDecoder().decode(payload);
-
-          if (message === 'final') {
-            console.log('[AnimationData] Final signal - adding to queue');
-            frameQueue.current.push(payload); // Add to queue (order preserved)
-          }
-          else if (message === 'interrupted') {
-            console.log('[AnimationData] Interrupt signal - immediate clear');
-            frameQueue.current = []; // Clear queue immediately
-            setInterruptSignal(Date.now()); // Propagate to Unity immediately
-          }
-        } catch {
-          // Ignore decode errors
-        }
+        console.log('[AnimationData] Interrupt signal - immediate clear');
       }
+
+      scheduler.push(message, now);
     };
 
     room.on(RoomEvent.DataReceived, handleDataReceived);
@@ -88,30 +115,13 @@ export function useAnimationData() {
     return () => {
       room.off(RoomEvent.DataReceived, handleDataReceived);
     };
-  }, [room]);
+  }, [room, scheduler]);
 
-  // 2. Dequeue frames at 60fps and set as latestFrame
+  // 2. Release frames at the output rate on the playout timeline
   useEffect(() => {
-    const intervalId = setInterval(() => {
-      if (frameQueue.current.length > 0) {
-        const frame = frameQueue.current.shift()!;
-        setLatestFrame(frame);
-        setFrameCount(prev => prev + 1);
-        framesDequeued.current++;
-
-        // Log every 60 frames
-        if (framesDequeued.current % 60 === 0) {
-          console.log(`[AnimationData] Dequeued ${framesDequeued.current} frames, queue: ${frameQueue.current.length} remaining`);
-        }
-      }
-    }, 16.67); // 60fps (16.67ms interval)
-
-    return () => clearInterval(intervalId);
-  }, []);
+    scheduler.start();
+    return () => scheduler.stop();
+  }, [scheduler]);
 
-  return {
-    latestFrame,
-    frameCount,
-    interruptSignal,
-  };
+  return scheduler;
 }
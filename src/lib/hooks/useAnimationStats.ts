@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+import type { FrameScheduler, FrameSchedulerStats } from '../animation/frame-scheduler';
+
+/**
+ * Animation pipeline stats for UI (re-renders at the scheduler's stats interval, ~1s)
+ */
+export function useAnimationStats(scheduler: FrameScheduler): FrameSchedulerStats {
+  const [stats, setStats] = useState(() => scheduler.getStats());
+
+  useEffect(() => scheduler.subscribeStats(setStats), [scheduler]);
+
+  return stats;
+}
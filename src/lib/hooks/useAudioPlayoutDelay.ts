@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { Track, type Room } from 'livekit-client';
+import { findAgentParticipant } from '@/lib/livekit';
+
+const POLL_INTERVAL_MS = 1000;
+const SMOOTHING = 0.3;  // EMA weight of the newest sample
+
+/**
+ * Agent audio playout delay (ms)
+ *
+ * Average time audio spent in the WebRTC jitter buffer over the last poll
+ * (delta jitterBufferDelay / delta jitterBufferEmittedCount of the agent's
+ * inbound-rtp stats). Data-channel frames skip that buffer, so delaying them by
+ * this amount lines them up with what the user hears.
+ * Returns 0 until the agent's audio track is subscribed.
+ */
+export function useAudioPlayoutDelay(room: Room): number {
+  const [delayMs, setDelayMs] = useState(0);
+
+  useEffect(() => {
+    let previous: { delay: number; emitted: number } | null = null;
+    let smoothed: number | null = null;
+    let cancelled = false;
+
+    const poll = async () => {
+      const track = findAgentParticipant(room)?.getTrackPublication(Track.Source.Microphone)?.track;
+      const report = await track?.getRTCStatsReport?.().catch(() => undefined);
+      if (cancelled || !report) return;
+
+      report.forEach((stat) => {
+        if (stat.type !== 'inbound-rtp' || stat.kind !== 'audio') return;
+
+        const delay = stat.jitterBufferDelay as number | undefined;
+        const emitted = stat.jitterBufferEmittedCount as number | undefined;
+        if (delay === undefined || !emitted) return;
+
+        if (previous && emitted > previous.emitted) {
+          const sampleMs = ((delay - previous.delay) / (emitted - previous.emitted)) * 1000;
+          smoothed = smoothed === null ? sampleMs : smoothed + SMOOTHING * (sampleMs - smoothed);
+          setDelayMs(Math.round(smoothed));
+        }
+        previous = { delay, emitted };
+      });
+    };
+
+    const intervalId = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(intervalId);
+    };
+  }, [room]);
+
+  return delayMs;
+}
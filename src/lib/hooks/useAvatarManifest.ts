@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+import { useAvatarStore } from '../store/avatar-store';
+import { AVATAR_MANIFEST_URL, AvatarManifestError, parseAvatarManifest } from '../unity/manifest';
+
+/**
+ * Load public/unity/manifest.json into useAvatarStore (once, at app start)
+ * Without one the store keeps the single VITE_UNITY_BUILD_NAME character.
+ */
+export function useAvatarManifest() {
+  const setManifest = useAvatarStore((state) => state.setManifest);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await fetch(AVATAR_MANIFEST_URL, { signal: controller.signal });
+        // Vite serves index.html for missing files - check the content type too
+        if (!response.ok || !response.headers.get('content-type')?.includes('json')) {
+          console.log('[AvatarManifest] No manifest.json - using VITE_UNITY_BUILD_NAME');
+          return;
+        }
+        const manifest = parseAvatarManifest(await response.json());
+        setManifest(manifest);
+        console.log(`[AvatarManifest] Loaded ${manifest.avatars.length} avatars`);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (error instanceof AvatarManifestError || error instanceof SyntaxError) {
+          console.warn('[AvatarManifest] Invalid manifest.json:', error.message);
+          return;
+        }
+        console.error('[AvatarManifest] Failed to load manifest:', error);
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [setManifest]);
+}
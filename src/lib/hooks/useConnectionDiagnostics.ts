@@ -0,0 +1,62 @@
+import { useEffect, useState } from 'react';
+import { ConnectionQuality, RoomEvent, Track, type Room } from 'livekit-client';
+import { findAgentParticipant } from '@/lib/livekit';
+
+const POLL_INTERVAL_MS = 1000;
+
+export interface ConnectionDiagnostics {
+  quality: ConnectionQuality;  // Local participant, as reported by the server
+  rttMs: number | null;        // Media path (selected ICE candidate pair of the agent's audio)
+  signalRttMs: number | null;  // Signaling websocket
+}
+
+/**
+ * LiveKit connection quality and round-trip times, polled once a second
+ */
+export function useConnectionDiagnostics(room: Room): ConnectionDiagnostics {
+  const [diagnostics, setDiagnostics] = useState<ConnectionDiagnostics>({
+    quality: room.localParticipant.connectionQuality,
+    rttMs: null,
+    signalRttMs: null,
+  });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const poll = async () => {
+      const track = findAgentParticipant(room)?.getTrackPublication(Track.Source.Microphone)?.track;
+      const report = await track?.getRTCStatsReport?.().catch(() => undefined);
+      if (cancelled) return;
+
+      let rttMs: number | null = null;
+      report?.forEach((stat) => {
+        if (stat.type === 'candidate-pair' && stat.nominated && stat.currentRoundTripTime !== undefined) {
+          rttMs = Math.round(stat.currentRoundTripTime * 1000);
+        }
+      });
+
+      const signalRtt = room.engine?.client?.rtt;
+      setDiagnostics({
+        quality: room.localParticipant.connectionQuality,
+        rttMs,
+        signalRttMs: signalRtt ? Math.round(signalRtt) : null,
+      });
+    };
+
+    const handleQualityChanged = () => {
+      setDiagnostics((previous) => ({ ...previous, quality: room.localParticipant.connectionQuality }));
+    };
+
+    room.on(RoomEvent.ConnectionQualityChanged, handleQualityChanged);
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+      room.off(RoomEvent.ConnectionQualityChanged, handleQualityChanged);
+    };
+  }, [room]);
+
+  return diagnostics;
+}
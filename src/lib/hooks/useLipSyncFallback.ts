@@ -0,0 +1,52 @@
+import { useEffect, useState } from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { RoomEvent, Track } from 'livekit-client';
+import { findAgentParticipant } from '../livekit';
+import { AudioLipSync } from '../animation/audio-lipsync';
+import type { FrameScheduler } from '../animation/frame-scheduler';
+
+/**
+ * Audio lip-sync fallback for the scheduler
+ *
+ * Analyzes the subscribed agent audio track (AudioLipSync) and registers it as
+ * the scheduler's fallback source. The scheduler switches to it only while the
+ * agent is speaking and no animation frames are arriving.
+ */
+export function useLipSyncFallback(scheduler: FrameScheduler, isSpeaking: boolean) {
+  const room = useRoomContext();
+  const [agentTrack, setAgentTrack] = useState<Track | undefined>(undefined);
+
+  useEffect(() => {
+    scheduler.setSpeaking(isSpeaking);
+  }, [scheduler, isSpeaking]);
+
+  // Follow the agent's audio track
+  useEffect(() => {
+    const update = () => {
+      setAgentTrack(findAgentParticipant(room)?.getTrackPublication(Track.Source.Microphone)?.track);
+    };
+    update();
+
+    room.on(RoomEvent.TrackSubscribed, update);
+    room.on(RoomEvent.TrackUnsubscribed, update);
+    room.on(RoomEvent.ParticipantDisconnected, update);
+    return () => {
+      room.off(RoomEvent.TrackSubscribed, update);
+      room.off(RoomEvent.TrackUnsubscribed, update);
+      room.off(RoomEvent.ParticipantDisconnected, update);
+    };
+  }, [room]);
+
+  useEffect(() => {
+    const mediaStream = agentTrack?.mediaStream;
+    if (!mediaStream) return;
+
+    const lipSync = new AudioLipSync(mediaStream);
+    scheduler.setFallbackSource(() => lipSync.sample());
+
+    return () => {
+      scheduler.setFallbackSource(null);
+      lipSync.close();
+    };
+  }, [scheduler, agentTrack]);
+}
@@ -1,6 +1,7 @@
-import { useState, useCallback } from 'react';
-import { generateToken, generateRoomId, getOrCreateParticipantIdentity } from '../livekit';
-import { ClientMetadata } from '../types';
+import { useState, useCallback, useRef } from 'react';
+import { generateToken, TokenError } from '../livekit';
+import { AGENT_NAME } from '../config';
+import { ClientMetadata, RejoinRequest } from '../types';
 
 /**
  * LiveKit room connection hook
@@ -14,14 +15,19 @@ export function useLiveKit() {
   const [isConnecting, setIsConnecting] = useState(false);
   const [error, setError] = useState<string>('');
 
-  const connect = useCallback(async (language: string = 'ko', customMetadata?: Partial<ClientMetadata>) => {
+  // Grant for the current room + agent, kept for rejoining with a fresh token
+  const rejoinRef = useRef<RejoinRequest | null>(null);
+  const agentNameRef = useRef<string>(AGENT_NAME);
+
+  const connect = useCallback(async (
+    language: string = 'ko',
+    customMetadata?: Partial<ClientMetadata>,
+    agentName: string = AGENT_NAME
+  ) => {
     setIsConnecting(true);
     setError('');
 
     try {
-      const roomPrefix = import.meta.env.VITE_ROOM_PREFIX || 'avatar';
-      const room = `${roomPrefix}-${generateRoomId()}`;
-      const userId = getOrCreateParticipantIdentity();
       const livekitUrl = import.meta.env.VITE_LIVEKIT_URL || '';
 
       const metadata: ClientMetadata = {
@@ -29,16 +35,23 @@ export function useLiveKit() {
         ...customMetadata
       };
 
-      const generatedToken = await generateToken(room, userId, metadata);
+      // Room name and identity are chosen by the token server
+      const { token: generatedToken, room, identity: grantedIdentity, roomGrant } =
+        await generateToken(metadata, { agentName });
+
+      rejoinRef.current = { room, grant: roomGrant };
+      agentNameRef.current = agentName;
 
       setToken(generatedToken);
       setServerUrl(livekitUrl);
       setRoomName(room);
-      setIdentity(userId);
+      setIdentity(grantedIdentity);
 
       console.log('[LiveKit] Connected to room:', room);
     } catch (err) {
-      const errorMsg = err instanceof Error ? err.message : 'Failed to connect';
+      const errorMsg = err instanceof TokenError
+        ? err.displayMessage
+        : err instanceof Error ? err.message : 'Failed to connect';
       setError(errorMsg);
       console.error('[LiveKit] Connection error:', err);
     } finally {
@@ -46,7 +59,42 @@ export function useLiveKit() {
     }
   }, []);
 
+  /**
+   * Mint a fresh token for the room we were in (same room name, same agent)
+   * Returns false when there is no room to rejoin or the token request fails;
+   * the caller decides whether to retry or give up.
+   */
+  const rejoin = useCallback(async (
+    language: string = 'ko',
+    customMetadata?: Partial<ClientMetadata>
+  ): Promise<boolean> => {
+    const previous = rejoinRef.current;
+    if (!previous) return false;
+
+    try {
+      const metadata: ClientMetadata = {
+        language,
+        ...customMetadata
+      };
+
+      const { token: generatedToken, room, roomGrant } = await generateToken(
+        metadata,
+        { agentName: agentNameRef.current, rejoin: previous }
+      );
+
+      rejoinRef.current = { room, grant: roomGrant };
+      setToken(generatedToken);
+
+      console.log('[LiveKit] Rejoining room with fresh token:', room);
+      return true;
+    } catch (err) {
+      console.warn('[LiveKit] Rejoin token request failed:', err);
+      return false;
+    }
+  }, []);
+
   const reset = useCallback(() => {
+    rejoinRef.current = null;
     setToken('');
     setServerUrl('');
     setRoomName('');
@@ -62,6 +110,7 @@ export function useLiveKit() {
     isConnecting,
     error,
     connect,
+    rejoin,
     reset,
   };
 }
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react';
+import {
+  DEFAULT_TUNING_PROFILE,
+  TuningProfileError,
+  parseTuningProfile,
+  type TuningProfile,
+} from '../animation/tuning-profile';
+
+/**
+ * Tuning profile of a Unity build (public/unity/{buildName}/tuning.json, or the manifest's path)
+ * Falls back to the identity profile when the build has none or it is invalid.
+ * setProfile replaces it locally (dev tuning panel).
+ */
+export function useTuningProfile(buildName: string, url = `/unity/${buildName}/tuning.json`) {
+  const [profile, setProfile] = useState<TuningProfile>(DEFAULT_TUNING_PROFILE);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await fetch(url, { signal: controller.signal });
+        // Vite serves index.html for missing files - check the content type too
+        if (!response.ok || !response.headers.get('content-type')?.includes('json')) {
+          console.log(`[TuningProfile] No tuning.json for ${buildName} - using raw weights`);
+          return;
+        }
+        setProfile(parseTuningProfile(await response.json()));
+        console.log(`[TuningProfile] Loaded tuning profile for ${buildName}`);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        if (error instanceof TuningProfileError || error instanceof SyntaxError) {
+          console.warn(`[TuningProfile] Invalid tuning.json for ${buildName}:`, error.message);
+          return;
+        }
+        console.error('[TuningProfile] Failed to load tuning profile:', error);
+      }
+    };
+
+    setProfile(DEFAULT_TUNING_PROFILE);
+    load();
+    return () => controller.abort();
+  }, [buildName, url]);
+
+  return { profile, setProfile };
+}
@@ -0,0 +1,33 @@
+import { useEffect } from 'react';
+import type { useUnityContext } from 'react-unity-webgl';
+import type { UnityBridge } from '../unity/bridge';
+
+type UnityContext = Pick<
+  ReturnType<typeof useUnityContext>,
+  'isLoaded' | 'sendMessage' | 'addEventListener' | 'removeEventListener'
+>;
+
+/**
+ * Bind a UnityBridge to a react-unity-webgl context (see unity/bridge.ts)
+ *
+ * Safe to use before the build loads: control messages are queued until
+ * Unity reports ready.
+ */
+export function useUnityBridge(bridge: UnityBridge, {
+  isLoaded,
+  sendMessage,
+  addEventListener,
+  removeEventListener,
+}: UnityContext): void {
+  useEffect(() => {
+    bridge.attach(isLoaded ? sendMessage : null);
+  }, [bridge, isLoaded, sendMessage]);
+
+  useEffect(() => {
+    return () => bridge.attach(null);
+  }, [bridge]);
+
+  useEffect(() => {
+    return bridge.connect({ addEventListener, removeEventListener });
+  }, [bridge, addEventListener, removeEventListener]);
+}
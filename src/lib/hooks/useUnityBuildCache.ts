@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import { useAvatarStore, selectAvatar } from '../store/avatar-store';
+import {
+  BUILD_HASHES_URL,
+  isServiceWorkerSupported,
+  parseBuildHashes,
+  precacheUnityBuild,
+  registerUnityServiceWorker,
+} from '../unity/build-cache';
+
+/**
+ * Load /unity/builds.json and register the Unity cache service worker (once, at app start).
+ * While the chat screen is shown, the selected build is precached so the first
+ * avatar switch (and the next visit) loads from the cache.
+ */
+export function useUnityBuildCache(isChatScreen: boolean) {
+  const setBuildHashes = useAvatarStore((state) => state.setBuildHashes);
+  const buildHashes = useAvatarStore((state) => state.buildHashes);
+  const { build } = useAvatarStore(selectAvatar);
+  const hash = buildHashes?.[build];
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    const load = async () => {
+      try {
+        const response = await fetch(BUILD_HASHES_URL, { signal: controller.signal, cache: 'no-cache' });
+        // Vite serves index.html for missing files - check the content type too
+        if (!response.ok || !response.headers.get('content-type')?.includes('json')) {
+          console.log('[UnityBuildCache] No builds.json - loading Unity builds unversioned');
+          setBuildHashes({});
+          return;
+        }
+        setBuildHashes(parseBuildHashes(await response.json()));
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        // Network down without a cached builds.json: unversioned URLs still reach the HTTP cache
+        console.warn('[UnityBuildCache] Failed to load builds.json:', error);
+        setBuildHashes({});
+      }
+    };
+
+    load();
+    return () => controller.abort();
+  }, [setBuildHashes]);
+
+  useEffect(() => {
+    if (!isServiceWorkerSupported()) return;
+    registerUnityServiceWorker().catch((error) => {
+      console.warn('[UnityBuildCache] Service worker registration failed:', error);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!isChatScreen || !hash || !isServiceWorkerSupported()) return;
+    console.log(`[UnityBuildCache] Precaching ${build}@${hash}`);
+    precacheUnityBuild(build, hash).catch((error) => {
+      console.warn('[UnityBuildCache] Precache request failed:', error);
+    });
+  }, [isChatScreen, build, hash]);
+}
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from 'react';
+import type { UnityEventParameter, useUnityContext } from 'react-unity-webgl';
+import {
+  UNITY_BUFFER_EVENT,
+  UnityFrameBuffer,
+  UnityFrameBufferError,
+  type UnityHeapGetter,
+} from '../animation/unity-frame-buffer';
+
+type UnityContext = Pick<
+  ReturnType<typeof useUnityContext>,
+  'addEventListener' | 'removeEventListener' | 'UNSAFE__unityInstance'
+>;
+
+/**
+ * Shared frame buffer registered by the Unity build (see unity-frame-buffer.ts)
+ *
+ * Returns null until ReactBridge registers one - older builds never do, and
+ * the caller keeps using the SendMessage string path.
+ */
+export function useUnityFrameBuffer({
+  addEventListener,
+  removeEventListener,
+  UNSAFE__unityInstance,
+}: UnityContext): UnityFrameBuffer | null {
+  const [frameBuffer, setFrameBuffer] = useState<UnityFrameBuffer | null>(null);
+
+  // Heap fallback for plugins that only pass the pointer
+  const unityInstanceRef = useRef(UNSAFE__unityInstance);
+  unityInstanceRef.current = UNSAFE__unityInstance;
+
+  // The buffer lives in the old heap - gone once the instance quits
+  useEffect(() => {
+    if (!UNSAFE__unityInstance) setFrameBuffer(null);
+  }, [UNSAFE__unityInstance]);
+
+  useEffect(() => {
+    const handleRegister = (ptr: UnityEventParameter, getHeap?: UnityEventParameter) => {
+      const heapGetter: UnityHeapGetter | null = typeof getHeap === 'function'
+        ? getHeap
+        : unityInstanceRef.current
+          ? () => unityInstanceRef.current!.Module.HEAPU8
+          : null;
+
+      if (!heapGetter) {
+        console.warn('[UnityFrameBuffer] No heap available - using string fallback');
+        return;
+      }
+
+      try {
+        setFrameBuffer(new UnityFrameBuffer(Number(ptr), heapGetter));
+        console.log(`[UnityFrameBuffer] Registered shared buffer at ${ptr}`);
+      } catch (error) {
+        if (error instanceof UnityFrameBufferError) {
+          console.warn('[UnityFrameBuffer] Rejected buffer - using string fallback:', error.message);
+          setFrameBuffer(null);
+          return;
+        }
+        throw error;
+      }
+    };
+
+    addEventListener(UNITY_BUFFER_EVENT, handleRegister);
+    return () => removeEventListener(UNITY_BUFFER_EVENT, handleRegister);
+  }, [addEventListener, removeEventListener]);
+
+  return frameBuffer;
+}
@@ -1,64 +1,110 @@
-import { TokenRequest, TokenResponse, ClientMetadata } from './types';
+import { ParticipantKind, type Participant, type RemoteParticipant, type Room } from 'livekit-client';
+import { TokenRequest, TokenResponse, TokenErrorResponse, TokenErrorDetail, ClientMetadata, RejoinRequest } from './types';
+
+/**
+ * Token endpoint error with the server's structured details (e.g. metadata validation)
+ */
+export class TokenError extends Error {
+  status: number;
+  code?: string;
+  details: TokenErrorDetail[];
+
+  constructor(message: string, status: number, code?: string, details: TokenErrorDetail[] = []) {
+    super(message);
+    this.name = 'TokenError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+
+  /**
+   * Human-readable summary for the UI (first few validation issues)
+   */
+  get displayMessage(): string {
+    if (this.details.length === 0) return this.message;
+
+    const summary = this.details
+      .slice(0, 3)
+      .map((d) => (d.path ? `${d.path}: ${d.message}` : d.message))
+      .join(', ');
+    return `${this.message} (${summary})`;
+  }
+}
+
+interface GenerateTokenOptions {
+  agentName?: string;
+  rejoin?: RejoinRequest;
+}
 
 /**
  * Generate LiveKit access token from token server
+ * The server picks the room name unless `rejoin` carries a grant for an existing room;
+ * when agentName is set, the token dispatches that agent
  */
 export async function generateToken(
-  roomName: string,
-  identity: string,
-  metadata?: ClientMetadata
-): Promise<string> {
+  metadata?: ClientMetadata,
+  { agentName, rejoin }: GenerateTokenOptions = {}
+): Promise<TokenResponse> {
   const defaultMetadata: ClientMetadata = {
     language: 'ko',
   };
 
   const request: TokenRequest = {
-    room: roomName,
-    identity: identity,
-    livekitUrl: import.meta.env.VITE_LIVEKIT_URL || '',
-    metadata: metadata || defaultMetadata
+    metadata: metadata || defaultMetadata,
+    ...(agentName ? { agentName } : {}),
+    ...(rejoin ? { rejoin } : {}),
   };
 
-  const response = await fetch('/api/token', {
+  const response = await identityFetch('/api/token', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(request)
   });
 
   if (!response.ok) {
-    throw new Error(`Token generation failed: ${response.statusText}`);
+    const body: Partial<TokenErrorResponse> = await response.json().catch(() => ({}));
+    throw new TokenError(
+      body.error || `Token generation failed: ${response.statusText}`,
+      response.status,
+      body.code,
+      body.details
+    );
   }
 
-  const data: TokenResponse = await response.json();
-  return data.token;
+  return response.json();
 }
 
+// First identity-bearing request of this page load (see identityFetch)
+let firstIdentityRequest: Promise<unknown> | null = null;
+
 /**
- * Generate unique room ID (8-char UUID)
+ * fetch() for endpoints that identify the caller by the signed identity cookie
+ * (/api/token, /api/adk, /api/session)
+ *
+ * Without a cookie the server issues a new identity per request, so the first
+ * request goes alone and the others wait until its Set-Cookie has landed.
  */
-export function generateRoomId(): string {
-  return crypto.randomUUID().substring(0, 8);
+export async function identityFetch(url: string, init: RequestInit): Promise<Response> {
+  if (firstIdentityRequest) {
+    await firstIdentityRequest;
+    return fetch(url, { ...init, credentials: 'same-origin' });
+  }
+
+  const request = fetch(url, { ...init, credentials: 'same-origin' });
+  firstIdentityRequest = request.catch(() => undefined);
+  return request;
 }
 
 /**
- * Generate unique user ID
+ * Check whether a participant is a dispatched agent
  */
-export function generateUserId(): string {
-  return `user-${crypto.randomUUID().substring(0, 12)}`;
+export function isAgentParticipant(participant?: Pick<Participant, 'kind'> | null): boolean {
+  return participant?.kind === ParticipantKind.AGENT;
 }
 
 /**
- * Get or create participant identity from localStorage
+ * Find the agent participant in a room (first one if several)
  */
-export function getOrCreateParticipantIdentity(): string {
-  const key = 'avatar-participant-identity';
-  const saved = localStorage.getItem(key);
-
-  if (saved) {
-    return saved;
-  }
-
-  const newIdentity = generateUserId();
-  localStorage.setItem(key, newIdentity);
-  return newIdentity;
+export function findAgentParticipant(room: Room): RemoteParticipant | undefined {
+  return Array.from(room.remoteParticipants.values()).find(isAgentParticipant);
 }
@@ -0,0 +1,248 @@
+import { AgentState } from '@/lib/types';
+import { BLENDSHAPE_COUNT, blendshapeIndex, encodeBlendshapeFrame } from '@/lib/animation/blendshapes';
+import { ANIMATION_TOPIC, FrameFlags, encodeAnimationFrame } from '@/lib/animation/frame-decoder';
+
+const FRAME_INTERVAL_MS = 1000 / 60;  // Agent sends 60fps
+const WORD_INTERVAL_MS = 180;         // Transcription pace while speaking
+const THINKING_DELAY_MS = 600;
+const STARTUP_DELAY_MS = 500;
+
+const JAW_OPEN = blendshapeIndex('jawOpen');
+const MOUTH_FUNNEL = blendshapeIndex('mouthFunnel');
+const MOUTH_SMILE_LEFT = blendshapeIndex('mouthSmileLeft');
+const MOUTH_SMILE_RIGHT = blendshapeIndex('mouthSmileRight');
+
+const GREETING = '안녕하세요! 모의 에이전트입니다. 무엇이든 물어보세요.';
+
+// Canned replies (first matching keyword wins), otherwise the default echo
+const MOCK_REPLIES: { keywords: string[]; reply: string }[] = [
+  { keywords: ['운영 시간', 'hours'], reply: '운영 시간은 평일 오전 9시부터 오후 6시까지입니다.' },
+  { keywords: ['문의', 'contact'], reply: '문의는 홈페이지의 고객센터 메뉴를 이용해 주세요.' },
+  { keywords: ['이용 방법', 'how'], reply: '아래 입력창에 질문을 입력하거나 아바타 모드에서 말로 물어보시면 됩니다.' },
+];
+
+export interface MockTranscription {
+  id: string;
+  text: string;       // Accumulated text so far
+  isFinal: boolean;
+  isUser: boolean;
+}
+
+interface MockAgentEvents {
+  stateChanged: (state: AgentState) => void;
+  transcription: (segment: MockTranscription) => void;
+  data: (payload: Uint8Array, topic?: string) => void;  // No topic = legacy frame
+}
+
+/**
+ * - v1: versioned frames on ANIMATION_TOPIC (current agent)
+ * - legacy: bare 208-byte frames and 'final' / 'interrupted' strings, no topic (older agents)
+ */
+export type MockFrameProtocol = 'v1' | 'legacy';
+
+export interface MockAgentOptions {
+  frameProtocol?: MockFrameProtocol;  // Default 'v1'
+}
+
+type Listeners = { [K in keyof MockAgentEvents]: Set<MockAgentEvents[K]> };
+
+/**
+ * MockAgent - In-browser stand-in for the Python agent (VITE_CHAT_MODE=mock)
+ *
+ * Emits the same signals the real agent produces:
+ * - agent_state_changed transitions (initializing → listening → thinking → speaking → listening)
+ * - lk.transcription-style streamed text
+ * - Animation frames at 60fps, then FINAL (or INTERRUPTED on interrupt); v1 on
+ *   ANIMATION_TOPIC, or the legacy untagged format with frameProtocol 'legacy'
+ *
+ * Replies are deterministic for a given input so end-to-end tests can assert on them.
+ */
+export class MockAgent {
+  readonly identity = 'agent-mock';
+  private frameProtocol: MockFrameProtocol;
+
+  private listeners: Listeners = {
+    stateChanged: new Set(),
+    transcription: new Set(),
+    data: new Set(),
+  };
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+  private frameTimer: ReturnType<typeof setInterval> | null = null;
+  private segmentCount = 0;
+  private sequence = 0;
+  private mediaTimeMs = 0;
+  private state: AgentState = 'initializing';
+  private mouthOpen = 0;
+
+  constructor(options: MockAgentOptions = {}) {
+    this.frameProtocol = options.frameProtocol ?? 'v1';
+  }
+
+  on<K extends keyof MockAgentEvents>(event: K, listener: MockAgentEvents[K]): () => void {
+    this.listeners[event].add(listener);
+    return () => {
+      this.listeners[event].delete(listener);
+    };
+  }
+
+  /**
+   * Current speaking loudness (0-1), used for the agent volume visualization
+   */
+  get volume(): number {
+    return this.state === 'speaking' ? this.mouthOpen : 0;
+  }
+
+  start(): void {
+    this.setState('initializing');
+    this.schedule(() => this.setState('listening'), STARTUP_DELAY_MS);
+  }
+
+  stop(): void {
+    this.clearTimers();
+  }
+
+  /**
+   * Handle an RPC from the client, mirroring the real agent's methods
+   */
+  async handleRpc(method: string, payload: string): Promise<string> {
+    switch (method) {
+      case 'start_conversation':
+        this.respond(GREETING);
+        return '';
+      case 'send_text_input': {
+        const { text } = JSON.parse(payload || '{}') as { text?: string };
+        if (text) this.respond(this.replyFor(text));
+        return '';
+      }
+      case 'interrupt_agent':
+        this.interrupt();
+        return '';
+      default:
+        throw new Error(`Unsupported method: ${method}`);
+    }
+  }
+
+  private replyFor(text: string): string {
+    const normalized = text.toLowerCase();
+    const match = MOCK_REPLIES.find(({ keywords }) =>
+      keywords.some((keyword) => normalized.includes(keyword.toLowerCase()))
+    );
+    return match?.reply ?? `"${text}"에 대한 모의 응답입니다.`;
+  }
+
+  private respond(reply: string): void {
+    this.interrupt(false);
+    this.setState('thinking');
+
+    this.schedule(() => {
+      this.setState('speaking');
+      this.streamTranscription(reply);
+      this.startFrames(reply.split(/\s+/).length * WORD_INTERVAL_MS);
+    }, THINKING_DELAY_MS);
+  }
+
+  private streamTranscription(reply: string): void {
+    const id = `mock_segment_${++this.segmentCount}`;
+    const words = reply.split(/\s+/);
+
+    words.forEach((_, index) => {
+      this.schedule(() => {
+        const isFinal = index === words.length - 1;
+        this.emit('transcription', {
+          id,
+          text: words.slice(0, index + 1).join(' '),
+          isFinal,
+          isUser: false,
+        });
+      }, index * WORD_INTERVAL_MS);
+    });
+  }
+
+  private startFrames(durationMs: number): void {
+    const totalFrames = Math.ceil(durationMs / FRAME_INTERVAL_MS);
+    let frame = 0;
+
+    this.frameTimer = setInterval(() => {
+      if (frame >= totalFrames) {
+        this.stopFrames();
+        this.emitControl(FrameFlags.FINAL);
+        this.setState('listening');
+        return;
+      }
+
+      // Syllable-like jaw motion (~5Hz) with a slight smile
+      const t = frame * FRAME_INTERVAL_MS / 1000;
+      this.mouthOpen = Math.max(0, Math.sin(t * Math.PI * 5)) * 0.6;
+
+      const weights = new Float32Array(BLENDSHAPE_COUNT);
+      weights[JAW_OPEN] = this.mouthOpen;
+      weights[MOUTH_FUNNEL] = this.mouthOpen * 0.3;
+      weights[MOUTH_SMILE_LEFT] = 0.15;
+      weights[MOUTH_SMILE_RIGHT] = 0.15;
+
+      if (this.frameProtocol === 'legacy') {
+        this.emit('data', encodeBlendshapeFrame(weights));
+      } else {
+        this.emit('data', encodeAnimationFrame({
+          sequence: this.sequence++,
+          timestampMs: this.mediaTimeMs,
+          blendshapes: weights,
+          headPose: { pitch: 0, yaw: Math.sin(t * 0.8) * 0.05, roll: 0 },
+        }), ANIMATION_TOPIC);
+      }
+      this.mediaTimeMs += FRAME_INTERVAL_MS;
+      frame++;
+    }, FRAME_INTERVAL_MS);
+  }
+
+  private stopFrames(): void {
+    if (this.frameTimer) {
+      clearInterval(this.frameTimer);
+      this.frameTimer = null;
+    }
+    this.mouthOpen = 0;
+  }
+
+  private interrupt(notify = true): void {
+    const wasSpeaking = this.state === 'speaking' || this.state === 'thinking';
+    this.clearTimers();
+
+    if (notify && wasSpeaking) {
+      this.emitControl(FrameFlags.INTERRUPTED);
+      this.setState('listening');
+    }
+  }
+
+  private emitControl(flags: number): void {
+    if (this.frameProtocol === 'legacy') {
+      this.emit('data', new TextEncoder().encode(flags === FrameFlags.FINAL ? 'final' : 'interrupted'));
+      return;
+    }
+    this.emit('data', encodeAnimationFrame({ sequence: this.sequence++, timestampMs: this.mediaTimeMs, flags }), ANIMATION_TOPIC);
+  }
+
+  private setState(state: AgentState): void {
+    this.state = state;
+    this.emit('stateChanged', state);
+  }
+
+  private emit<K extends keyof MockAgentEvents>(event: K, ...args: Parameters<MockAgentEvents[K]>): void {
+    this.listeners[event].forEach((listener) => {
+      (listener as (...a: Parameters<MockAgentEvents[K]>) => void)(...args);
+    });
+  }
+
+  private schedule(fn: () => void, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      fn();
+    }, delayMs);
+    this.timers.add(timer);
+  }
+
+  private clearTimers(): void {
+    this.timers.forEach(clearTimeout);
+    this.timers.clear();
+    this.stopFrames();
+  }
+}
@@ -1,22 +1,102 @@
-import { useEffect, useCallback, useRef } from 'react';
-import { LiveKitRoom } from '@livekit/components-react';
+import { useEffect, useCallback, useRef, useState } from 'react';
+import { LiveKitRoom, useConnectionState } from '@livekit/components-react';
+import { ConnectionState, DisconnectReason } from 'livekit-client';
 import '@livekit/components-styles';
 import { useLiveKit } from '@/lib/hooks';
 import { useLanguageStore } from '@/lib/store/language-store';
 import { useSessionStore } from '@/lib/store/session-store';
+import { useSessionIdStore } from '@/lib/store/session-id-store';
+import { useAvatarStore, selectAvatar } from '@/lib/store/avatar-store';
+import { isADKMode } from '@/lib/config';
 import { useTranslation } from '@/lib/i18n';
-import { HistoryMessage } from '@/lib/types';
+import { AvatarMetadata, ClientMetadata, HistoryMessage } from '@/lib/types';
 
 // Constants for JWT metadata size limits
+// The token endpoint enforces the same limits (api/_lib/metadata.ts) and rejects larger metadata
 const MAX_HISTORY_MESSAGES = 20;
 const MAX_MESSAGE_LENGTH = 200;
 const MAX_METADATA_SIZE = 4096; // 4KB limit
 
+// Rejoin (same room, fresh token) after the SDK's own reconnect gives up
+const MAX_REJOIN_ATTEMPTS = 3;
+const REJOIN_BACKOFF_MS = [1000, 2000, 4000];
+
+// Disconnects that must not trigger a rejoin
+const FINAL_DISCONNECT_REASONS = new Set<DisconnectReason | undefined>([
+  DisconnectReason.CLIENT_INITIATED,
+  DisconnectReason.DUPLICATE_IDENTITY,
+  DisconnectReason.PARTICIPANT_REMOVED,
+  DisconnectReason.ROOM_DELETED,
+]);
+
 interface LiveKitProviderProps {
   children: React.ReactNode;
   onDisconnect?: () => void;
 }
 
+/**
+ * Build agent context metadata from the current chat messages
+ * Used for the first connect and for every rejoin, so the agent always gets the latest history
+ */
+function buildAgentContext(language: string): Partial<ClientMetadata> {
+  const { messages } = useSessionStore.getState();
+
+  // Build chat history with size limits to keep JWT token small
+  let chatHistory: HistoryMessage[] = messages
+    .filter((m) => m.isFinal !== false && m.message.trim())
+    .slice(-MAX_HISTORY_MESSAGES) // Limit message count
+    .map((m) => ({
+      role: m.isUser ? 'user' : 'assistant',
+      // Truncate long messages
+      content: m.message.length > MAX_MESSAGE_LENGTH
+        ? m.message.slice(0, MAX_MESSAGE_LENGTH) + '…'
+        : m.message,
+    }));
+
+  // ADK mode: link the room to the ADK session (recorded by the LiveKit webhook)
+  const sessionId = isADKMode ? useSessionIdStore.getState().sessionId : undefined;
+
+  // Chosen character, so the agent can match its voice
+  const { id, voice } = selectAvatar(useAvatarStore.getState());
+  const avatar: AvatarMetadata = voice ? { id, voice } : { id };
+
+  // Further trim if total size exceeds limit (UTF-8 bytes, as checked by the server)
+  const metadataSize = (history: HistoryMessage[]) =>
+    new TextEncoder().encode(JSON.stringify({ language, chatHistory: history, sessionId, avatar })).length;
+  while (metadataSize(chatHistory) > MAX_METADATA_SIZE && chatHistory.length > 1) {
+    chatHistory = chatHistory.slice(1);
+  }
+
+  return chatHistory.length > 0 ? { chatHistory, sessionId, avatar } : { sessionId, avatar };
+}
+
+/**
+ * ReconnectingOverlay - Shown while the SDK reconnects or while we rejoin with a fresh token
+ */
+function ReconnectingOverlay({ isRejoining }: { isRejoining: boolean }) {
+  const { t } = useTranslation();
+  const connectionState = useConnectionState();
+
+  const isReconnecting = isRejoining
+    || connectionState === ConnectionState.Reconnecting
+    || connectionState === ConnectionState.SignalReconnecting;
+
+  if (!isReconnecting) return null;
+
+  return (
+    <div
+      className="absolute top-0 left-0 right-0 z-[300] flex justify-center pointer-events-none"
+      style={{ paddingTop: 'calc(64px + env(safe-area-inset-top, 0px))' }}
+      role="status"
+      aria-live="polite"
+    >
+      <div className="px-4 py-2 rounded-full bg-black/70 text-white text-[13px] tracking-[-0.26px]">
+        {t('connection.reconnecting')}
+      </div>
+    </div>
+  );
+}
+
 /**
  * LiveKitProvider - Handles LiveKit connection lifecycle
  *
@@ -25,52 +105,40 @@ interface LiveKitProviderProps {
  * - LiveKitRoom context provider
  * - Loading/error states
  * - Connection lifecycle management
+ * - Rejoining the same room with a fresh token after an unexpected disconnect
+ *   (messages in useSessionStore are kept and resent as agent context)
  */
 export function LiveKitProvider({ children, onDisconnect }: LiveKitProviderProps) {
   const { t } = useTranslation();
   const { language } = useLanguageStore();
-  const { token, serverUrl, connect, reset, error } = useLiveKit();
+  const { token, serverUrl, connect, rejoin, reset, error } = useLiveKit();
   const hasConnected = useRef(false);
 
+  const [isRejoining, setIsRejoining] = useState(false);
+  const isRejoiningRef = useRef(false);
+  const rejoinAttempts = useRef(0);
+  const rejoinTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const isUnmounted = useRef(false);
+
   // Auto-connect on mount with chat history
   useEffect(() => {
     if (hasConnected.current) return;
     hasConnected.current = true;
 
-    // Get existing chat messages and convert to history format for agent context
-    const { messages } = useSessionStore.getState();
-
-    // Build chat history with size limits to keep JWT token small
-    let chatHistory: HistoryMessage[] = messages
-      .filter((m) => m.isFinal !== false && m.message.trim())
-      .slice(-MAX_HISTORY_MESSAGES) // Limit message count
-      .map((m) => ({
-        role: m.isUser ? 'user' : 'assistant',
-        // Truncate long messages
-        content: m.message.length > MAX_MESSAGE_LENGTH
-          ? m.message.slice(0, MAX_MESSAGE_LENGTH) + '…'
-          : m.message,
-      }));
-
-    // Further trim if total size exceeds limit
-    let serialized = JSON.stringify({ chatHistory });
-    while (serialized.length > MAX_METADATA_SIZE && chatHistory.length > 1) {
-      chatHistory = chatHistory.slice(1);
-      serialized = JSON.stringify({ chatHistory });
-    }
-
     // Connect with chat history in metadata (agent will use for context)
-    if (chatHistory.length > 0) {
-      console.log('[LiveKitProvider] Connecting with chat history:', chatHistory.length, 'messages');
-      connect(language, { chatHistory });
-    } else {
-      connect(language);
+    const agentContext = buildAgentContext(language);
+    if (agentContext.chatHistory) {
+      console.log('[LiveKitProvider] Connecting with chat history:', agentContext.chatHistory.length, 'messages');
     }
+    connect(language, agentContext);
   }, [connect, language]);
 
   // Cleanup on unmount
   useEffect(() => {
+    isUnmounted.current = false;
     return () => {
+      isUnmounted.current = true;
+      if (rejoinTimer.current) clearTimeout(rejoinTimer.current);
       reset();
     };
   }, [reset]);
@@ -80,9 +148,69 @@ export function LiveKitProvider({ children, onDisconnect }: LiveKitProviderProps
     onDisconnect?.();
   }, [reset, onDisconnect]);
 
+  const setRejoining = useCallback((value: boolean) => {
+    isRejoiningRef.current = value;
+    setIsRejoining(value);
+  }, []);
+
+  const scheduleRejoin = useCallback(() => {
+    if (isUnmounted.current) return;
+
+    if (rejoinAttempts.current >= MAX_REJOIN_ATTEMPTS) {
+      console.warn('[LiveKitProvider] Rejoin failed, giving up');
+      setRejoining(false);
+      handleDisconnect();
+      return;
+    }
+
+    const delay = REJOIN_BACKOFF_MS[rejoinAttempts.current] ?? REJOIN_BACKOFF_MS[REJOIN_BACKOFF_MS.length - 1];
+    rejoinAttempts.current++;
+    setRejoining(true);
+
+    rejoinTimer.current = setTimeout(async () => {
+      if (isUnmounted.current) return;
+
+      console.log(`[LiveKitProvider] Rejoin attempt ${rejoinAttempts.current}/${MAX_REJOIN_ATTEMPTS}`);
+      const ok = await rejoin(language, buildAgentContext(language));
+      // On success LiveKitRoom connects with the new token (onConnected / onError follow)
+      if (!ok) scheduleRejoin();
+    }, delay);
+  }, [rejoin, language, handleDisconnect, setRejoining]);
+
+  const handleDisconnected = useCallback((reason?: DisconnectReason) => {
+    console.log('[LiveKitProvider] Disconnected from LiveKit room, reason:', reason);
+
+    if (isUnmounted.current) return;
+
+    if (FINAL_DISCONNECT_REASONS.has(reason)) {
+      handleDisconnect();
+      return;
+    }
+
+    scheduleRejoin();
+  }, [handleDisconnect, scheduleRejoin]);
+
+  const handleConnected = useCallback(() => {
+    if (isRejoiningRef.current) {
+      console.log('[LiveKitProvider] Rejoined LiveKit room');
+    } else {
+      console.log('[LiveKitProvider] Connected to LiveKit room');
+    }
+    rejoinAttempts.current = 0;
+    setRejoining(false);
+  }, [setRejoining]);
+
+  const handleError = useCallback((err: Error) => {
+    console.error('[LiveKitProvider] Room error:', err);
+    // A failed connect during rejoin counts as an attempt
+    if (isRejoiningRef.current) {
+      scheduleRejoin();
+    }
+  }, [scheduleRejoin]);
+
   const handleRetry = useCallback(() => {
     hasConnected.current = false;
-    connect(language);
+    connect(language, buildAgentContext(language));
   }, [connect, language]);
 
   // Error state
@@ -110,14 +238,11 @@ export function LiveKitProvider({ children, onDisconnect }: LiveKitProviderProps
       connect={true}
       audio={false}  // Mic is enabled by AvatarView after Unity loads
       video={false}
-      onConnected={() => {
-        console.log('[LiveKitProvider] Connected to LiveKit room');
-      }}
-      onDisconnected={() => {
-        handleDisconnect();
-        console.log('[LiveKitProvider] Disconnected from LiveKit room');
-      }}
+      onConnected={handleConnected}
+      onDisconnected={handleDisconnected}
+      onError={handleError}
     >
+      <ReconnectingOverlay isRejoining={isRejoining} />
       {children}
     </LiveKitRoom>
   );
@@ -1,18 +1,24 @@
-import { useEffect, useRef, useState, createContext, useContext, ReactNode, useCallback } from 'react';
+import { useEffect, useRef, useState, useMemo, createContext, useContext, ReactNode, useCallback } from 'react';
 import { useLocalParticipant, useRoomContext, useTracks, AudioTrack, TrackReference } from '@livekit/components-react';
 import { Track } from 'livekit-client';
-import { useAudioContext, useTrackVolume } from '@/lib/hooks';
-import { ChatMessage, AgentState } from '@/lib/types';
+import { useAudioContext, useTrackVolume, useAgentPresence } from '@/lib/hooks';
+import { isAgentParticipant } from '@/lib/livekit';
+import { AgentRpcClient, createRoomRpcTransport } from '@/lib/agent/rpc-client';
+import { AGENT_JOIN_TIMEOUT_MS } from '@/lib/config';
+import { ChatMessage, AgentState, AgentUnavailableReason } from '@/lib/types';
 import { useSessionStore } from '@/lib/store/session-store';
 
-interface LiveKitSessionContextValue {
+export interface LiveKitSessionContextValue {
   agentState: AgentState | null;
   avatarMessage: ChatMessage | undefined;
   userVolume: number;
   agentVolume: number;
+  agentRpc: AgentRpcClient;
+  // Why the agent is unavailable (null while present or still expected)
+  agentUnavailableReason: AgentUnavailableReason | null;
 }
 
-const LiveKitSessionContext = createContext<LiveKitSessionContextValue | null>(null);
+export const LiveKitSessionContext = createContext<LiveKitSessionContextValue | null>(null);
 
 export function useLiveKitSession() {
   const context = useContext(LiveKitSessionContext);
@@ -35,6 +41,7 @@ interface LiveKitSessionHandlerProps {
  * - Transcription stream handling (lk.transcription)
  * - Agent audio track playback
  * - User microphone volume tracking
+ * - Agent presence (join timeout / agent left)
  * - Provides context for agent state and messages
  */
 export function LiveKitSessionHandler({ children, enableAudio = false }: LiveKitSessionHandlerProps) {
@@ -69,11 +76,14 @@ export function LiveKitSessionHandler({ children, enableAudio = false }: LiveKit
 
   // Agent audio volume for green gradient animation
   const agentTracks = audioTracks.filter(
-    (track) => track.participant.identity.startsWith('agent') && track.publication
+    (track) => isAgentParticipant(track.participant) && track.publication
   );
   const agentAudioTrack = agentTracks[0]?.publication?.track;
   const agentVolume = useTrackVolume(agentAudioTrack);
 
+  const agentRpc = useMemo(() => new AgentRpcClient(createRoomRpcTransport(room)), [room]);
+  const agentUnavailableReason = useAgentPresence(room, AGENT_JOIN_TIMEOUT_MS);
+
   // Memoized RPC handler
   const handleRpc = useCallback(async (data: { payload: string; callerIdentity: string }) => {
     try {
@@ -181,13 +191,14 @@ export function LiveKitSessionHandler({ children, enableAudio = false }: LiveKit
     avatarMessage,
     userVolume,
     agentVolume,
+    agentRpc,
+    agentUnavailableReason,
   };
 
   return (
     <LiveKitSessionContext.Provider value={contextValue}>
       {/* Agent audio playback - only when enableAudio is true (AvatarView) */}
-      {enableAudio && audioTracks
-        .filter((track) => track.participant.identity.startsWith('agent') && track.publication)
+      {enableAudio && agentTracks
         .map((track) => (
           <AudioTrack key={track.participant.sid} trackRef={track as TrackReference} />
         ))}
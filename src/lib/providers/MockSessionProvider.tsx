@@ -0,0 +1,111 @@
+import { useEffect, useRef, useState, useMemo, ReactNode } from 'react';
+import { LiveKitRoom, useRoomContext } from '@livekit/components-react';
+import { ParticipantKind, RoomEvent, type RemoteParticipant } from 'livekit-client';
+import '@livekit/components-styles';
+import { mockFrameProtocol } from '@/lib/config';
+import { MockAgent } from '@/lib/mock/mock-agent';
+import { AgentRpcClient } from '@/lib/agent/rpc-client';
+import { ChatMessage, AgentState } from '@/lib/types';
+import { useSessionStore } from '@/lib/store/session-store';
+import { LiveKitSessionContext, LiveKitSessionContextValue } from './LiveKitSessionHandler';
+
+const VOLUME_POLL_INTERVAL_MS = 1000 / 30;
+
+/**
+ * MockLiveKitProvider - Offline LiveKitRoom (never connects)
+ * Keeps LiveKit hooks (useRoomContext, useLocalParticipant, ...) working without a server
+ */
+export function MockLiveKitProvider({ children }: { children: ReactNode; onDisconnect?: () => void }) {
+  return (
+    <LiveKitRoom token="" serverUrl="" connect={false} audio={false} video={false}>
+      {children}
+    </LiveKitRoom>
+  );
+}
+
+/**
+ * MockSessionHandler - Drop-in replacement for LiveKitSessionHandler backed by MockAgent
+ *
+ * - Agent state and transcriptions come from MockAgent events
+ * - Animation frames / control messages are emitted on the room as DataReceived,
+ *   so useAnimationData runs unchanged
+ * - agentRpc calls are answered by MockAgent (always present)
+ */
+export function MockSessionHandler({ children }: { children: ReactNode; enableAudio?: boolean }) {
+  const room = useRoomContext();
+  const [agent] = useState(() => new MockAgent({ frameProtocol: mockFrameProtocol }));
+  const [agentState, setAgentState] = useState<AgentState | null>(null);
+  const [avatarMessage, setAvatarMessage] = useState<ChatMessage | undefined>(undefined);
+  const [agentVolume, setAgentVolume] = useState(0);
+  const addedSegments = useRef(new Set<string>());
+
+  useEffect(() => {
+    // Looks like a dispatched agent to isAgentParticipant()
+    const participant = {
+      identity: agent.identity,
+      kind: ParticipantKind.AGENT,
+    } as RemoteParticipant;
+
+    const unsubscribers = [
+      agent.on('stateChanged', (state) => {
+        setAgentState(state);
+        console.log('[MockSessionHandler] Agent state changed:', state);
+      }),
+      agent.on('data', (payload, topic) => {
+        room.emit(RoomEvent.DataReceived, payload, participant, undefined, topic);
+      }),
+      agent.on('transcription', ({ id, text, isFinal, isUser }) => {
+        const message: ChatMessage = {
+          id,
+          message: text + (isFinal ? '' : ' ...'),
+          isUser,
+          timestamp: Date.now(),
+          sender: isUser ? 'You' : 'Agent',
+          isFinal,
+        };
+
+        if (!isUser) {
+          setAvatarMessage(message);
+        }
+
+        const { addMessage, updateMessage } = useSessionStore.getState();
+        if (addedSegments.current.has(id)) {
+          updateMessage(id, message);
+        } else {
+          addedSegments.current.add(id);
+          addMessage(message);
+        }
+      }),
+    ];
+
+    agent.start();
+    const volumeTimer = setInterval(() => setAgentVolume(agent.volume), VOLUME_POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(volumeTimer);
+      unsubscribers.forEach((unsubscribe) => unsubscribe());
+      agent.stop();
+    };
+  }, [agent, room]);
+
+  const agentRpc = useMemo(() => new AgentRpcClient({
+    findAgentIdentity: () => agent.identity,
+    onParticipantsChanged: () => () => {},
+    performRpc: ({ method, payload }) => agent.handleRpc(method, payload),
+  }), [agent]);
+
+  const contextValue: LiveKitSessionContextValue = {
+    agentState,
+    avatarMessage,
+    userVolume: 0,
+    agentVolume,
+    agentRpc,
+    agentUnavailableReason: null,  // MockAgent is always present
+  };
+
+  return (
+    <LiveKitSessionContext.Provider value={contextValue}>
+      {children}
+    </LiveKitSessionContext.Provider>
+  );
+}
@@ -0,0 +1,161 @@
+import { useEffect, useState, useMemo, useCallback, createContext, useContext, ReactNode } from 'react';
+import { useRoomContext } from '@livekit/components-react';
+import { ParticipantKind, RoomEvent, type RemoteParticipant } from 'livekit-client';
+import { AgentRpcClient } from '@/lib/agent/rpc-client';
+import { AgentState } from '@/lib/types';
+import { RecordingError, decodeRecording, type SessionRecording } from '@/lib/replay/recording';
+import { ReplayPlayer } from '@/lib/replay/replay-player';
+import { LiveKitSessionContext, LiveKitSessionContextValue } from './LiveKitSessionHandler';
+
+const VOLUME_POLL_INTERVAL_MS = 1000 / 30;
+const REPLAY_AGENT_IDENTITY = 'replay-agent';
+
+// Looks like a dispatched agent to isAgentParticipant()
+const replayParticipant = { identity: REPLAY_AGENT_IDENTITY, kind: ParticipantKind.AGENT } as RemoteParticipant;
+
+export type ReplayStatus = 'empty' | 'ready' | 'playing' | 'ended';
+
+export interface ReplayContextValue {
+  status: ReplayStatus;
+  fileName: string | null;
+  recording: SessionRecording | null;
+  error: string | null;
+  load: (file: File) => Promise<void>;
+  play: () => void;
+  stop: () => void;
+}
+
+const ReplayContext = createContext<ReplayContextValue | null>(null);
+
+/**
+ * Replay controls, or null outside replay mode
+ */
+export function useReplay() {
+  return useContext(ReplayContext);
+}
+
+/**
+ * ReplaySessionHandler - Drop-in replacement for LiveKitSessionHandler that plays a recording
+ *
+ * Use with MockLiveKitProvider (no connection). Recorded data packets are emitted
+ * on the room as DataReceived, so the animation pipeline and Unity bridge run
+ * exactly as in a live session; agent state and audio come from the recording.
+ */
+export function ReplaySessionHandler({ children }: { children: ReactNode; enableAudio?: boolean }) {
+  const room = useRoomContext();
+  // 'listening' lets the avatar screen finish loading before a recording is picked
+  const [agentState, setAgentState] = useState<AgentState | null>('listening');
+  const [agentVolume, setAgentVolume] = useState(0);
+  const [player, setPlayer] = useState<ReplayPlayer | null>(null);
+  const [recording, setRecording] = useState<SessionRecording | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [status, setStatus] = useState<ReplayStatus>('empty');
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async (file: File) => {
+    try {
+      const { recording, audio } = await decodeRecording(file);
+
+      setPlayer(new ReplayPlayer(recording, audio, {
+        onData: (payload, topic) => room.emit(RoomEvent.DataReceived, payload, replayParticipant, undefined, topic),
+        onAgentState: setAgentState,
+        onEnded: () => {
+          setStatus('ended');
+          setAgentState('listening');
+        },
+      }));
+      setRecording(recording);
+      setFileName(file.name);
+      setStatus('ready');
+      setError(null);
+      console.log(`[ReplaySessionHandler] Loaded ${file.name}: ${recording.events.length} events, ${Math.round(recording.durationMs)}ms`);
+    } catch (err) {
+      if (err instanceof RecordingError) {
+        setError(err.message);
+        return;
+      }
+      throw err;
+    }
+  }, [room]);
+
+  // Release the previous player (audio element, object URL)
+  useEffect(() => {
+    return () => player?.dispose();
+  }, [player]);
+
+  // Agent volume from the recorded audio
+  useEffect(() => {
+    const audio = player?.audioElement;
+    if (!audio) return;
+
+    const ctx = new AudioContext();
+    const source = ctx.createMediaElementSource(audio);
+    const analyser = ctx.createAnalyser();
+    analyser.fftSize = 32;
+    analyser.smoothingTimeConstant = 0;
+    source.connect(analyser);
+    analyser.connect(ctx.destination);  // Element output now goes through the context
+
+    const dataArray = new Uint8Array(analyser.frequencyBinCount);
+    const interval = setInterval(() => {
+      if (ctx.state === 'suspended' && !audio.paused) {
+        ctx.resume().catch(() => {});
+      }
+      analyser.getByteFrequencyData(dataArray);
+      let sum = 0;
+      for (let i = 0; i < dataArray.length; i++) {
+        sum += dataArray[i] * dataArray[i];
+      }
+      setAgentVolume(Math.sqrt(sum / dataArray.length) / 255);
+    }, VOLUME_POLL_INTERVAL_MS);
+
+    return () => {
+      clearInterval(interval);
+      source.disconnect();
+      ctx.close().catch(() => {});
+    };
+  }, [player]);
+
+  const play = useCallback(() => {
+    if (!player) return;
+    // Start every run on an empty jitter buffer (a recording can end mid-utterance, without 'final')
+    room.emit(RoomEvent.DataReceived, new TextEncoder().encode('interrupted'), replayParticipant);
+    player.play();
+    setStatus('playing');
+  }, [player, room]);
+
+  const stop = useCallback(() => {
+    if (!player) return;
+    player.stop();
+    setStatus('ready');
+    setAgentState('listening');
+    // Same as an interrupt: clears the animation buffer, Unity resets the face
+    room.emit(RoomEvent.DataReceived, new TextEncoder().encode('interrupted'), replayParticipant);
+  }, [player, room]);
+
+  // Nothing to talk to - RPCs succeed without effect
+  const agentRpc = useMemo(() => new AgentRpcClient({
+    findAgentIdentity: () => REPLAY_AGENT_IDENTITY,
+    onParticipantsChanged: () => () => {},
+    performRpc: async () => '',
+  }), []);
+
+  const contextValue: LiveKitSessionContextValue = {
+    agentState,
+    avatarMessage: undefined,
+    userVolume: 0,
+    agentVolume,
+    agentRpc,
+    agentUnavailableReason: null,
+  };
+
+  const replayValue: ReplayContextValue = { status, fileName, recording, error, load, play, stop };
+
+  return (
+    <LiveKitSessionContext.Provider value={contextValue}>
+      <ReplayContext.Provider value={replayValue}>
+        {children}
+      </ReplayContext.Provider>
+    </LiveKitSessionContext.Provider>
+  );
+}
@@ -0,0 +1,292 @@
+import { useEffect, useLayoutEffect, useState, useMemo, useCallback, useRef, createContext, useContext, ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+import { Unity, useUnityContext } from 'react-unity-webgl';
+import { useUnityBridge, useUnityFrameBuffer } from '@/lib/hooks';
+import { UnityBridge } from '@/lib/unity/bridge';
+import { unityBuildUrls } from '@/lib/unity/build-cache';
+import { checkUnitySupport, type UnityFallbackReason } from '@/lib/unity/capabilities';
+import { useAvatarStore, selectAvatar } from '@/lib/store/avatar-store';
+import { UNITY_KEEP_WARM_MS } from '@/lib/config';
+import type { UnityFrameBuffer } from '@/lib/animation/unity-frame-buffer';
+
+// No download progress for this long = failed load (react-unity-webgl reports no error when the loader script 404s)
+const UNITY_LOAD_STALL_MS = 20000;
+// Progress sits at 0.9 while the downloaded build compiles and starts (no updates) - slow phones need long here
+const UNITY_DOWNLOADED_PROGRESS = 0.9;
+const UNITY_STARTUP_STALL_MS = 120000;
+
+// While parked: unload when the JS heap is this full (Chromium's performance.memory only -
+// elsewhere only the idle limit applies, see UNITY_KEEP_WARM_MS)
+const MEMORY_CHECK_INTERVAL_MS = 10000;
+const MEMORY_PRESSURE_RATIO = 0.85;
+
+// Parked instance keeps this size so Unity does not see a 0x0 canvas
+const PARKING_WIDTH = 360;
+const PARKING_HEIGHT = 640;
+
+export interface UnityHostState {
+  isLoaded: boolean;
+  loadingProgression: number;  // 0-1
+  fallbackReason: UnityFallbackReason | null;
+  bridge: UnityBridge;
+  frameBuffer: UnityFrameBuffer | null;
+}
+
+type UnityInstanceState = Omit<UnityHostState, 'bridge'> & { build: string };
+
+interface UnityHostContextValue extends UnityHostState {
+  /** Show the Unity canvas inside container; returns detach (parks it off-screen) */
+  attachSlot: (container: HTMLElement) => () => void;
+  /** Load the build again from scratch (after fallbackReason 'load_error') */
+  retryLoad: () => void;
+}
+
+const UnityHostContext = createContext<UnityHostContextValue | null>(null);
+
+export function useUnityHost(): UnityHostContextValue {
+  const context = useContext(UnityHostContext);
+  if (!context) {
+    throw new Error('useUnityHost must be used within UnityHostProvider');
+  }
+  return context;
+}
+
+// Emscripten main loop controls (present in Unity WebGL builds, not in react-unity-webgl's types)
+interface MainLoopModule {
+  pauseMainLoop?: () => void;
+  resumeMainLoop?: () => void;
+}
+
+function isUnderMemoryPressure(): boolean {
+  const memory = (performance as Performance & {
+    memory?: { usedJSHeapSize: number; jsHeapSizeLimit: number };
+  }).memory;
+  return !!memory && memory.usedJSHeapSize / memory.jsHeapSizeLimit > MEMORY_PRESSURE_RATIO;
+}
+
+/**
+ * UnityHostProvider - Owns the Unity instance above the screens
+ *
+ * AvatarView shows it through UnityHostSlot. When the avatar screen goes away
+ * the canvas is parked off-screen and the build is paused (main loop + setPaused
+ * for audio), so coming back is instant. A parked instance is unloaded after
+ * UNITY_KEEP_WARM_MS or under memory pressure, and loads again on the next visit.
+ */
+export function UnityHostProvider({ children }: { children: ReactNode }) {
+  const { build } = useAvatarStore(selectAvatar);
+  // Build URLs are versioned with the content hash - wait for builds.json before loading
+  const buildHashes = useAvatarStore((state) => state.buildHashes);
+  const [hostElement] = useState(() => {
+    const element = document.createElement('div');
+    element.style.width = '100%';
+    element.style.height = '100%';
+    return element;
+  });
+  const parkingRef = useRef<HTMLDivElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+
+  // New bridge per build; the instance reports its state back here
+  const bridge = useMemo(() => new UnityBridge(), [build]);
+  const [instanceState, setInstanceState] = useState<UnityInstanceState | null>(null);
+  // Bumped by retryLoad - remounts the instance with a fresh Unity context
+  const [loadAttempt, setLoadAttempt] = useState(0);
+  const retryLoad = useCallback(() => {
+    console.log('[UnityHost] Retrying Unity load');
+    setLoadAttempt((attempt) => attempt + 1);
+  }, []);
+
+  useEffect(() => {
+    if (!hostElement.parentElement) parkingRef.current?.appendChild(hostElement);
+  }, [hostElement]);
+
+  const attachSlot = useCallback((container: HTMLElement) => {
+    container.appendChild(hostElement);
+    setIsVisible(true);
+    return () => {
+      parkingRef.current?.appendChild(hostElement);
+      setIsVisible(false);
+    };
+  }, [hostElement]);
+
+  const state = instanceState?.build === build
+    ? instanceState
+    : { isLoaded: false, loadingProgression: 0, fallbackReason: null, frameBuffer: null };
+
+  return (
+    <UnityHostContext.Provider value={{ ...state, bridge, attachSlot, retryLoad }}>
+      {children}
+      <div
+        ref={parkingRef}
+        aria-hidden
+        style={{
+          position: 'fixed',
+          left: -10000,
+          top: 0,
+          width: PARKING_WIDTH,
+          height: PARKING_HEIGHT,
+          pointerEvents: 'none',
+        }}
+      />
+      {buildHashes && (
+        <UnityHostInstance
+          key={`${build}:${loadAttempt}`}
+          build={build}
+          hash={buildHashes[build]}
+          bridge={bridge}
+          isVisible={isVisible}
+          hostElement={hostElement}
+          onStateChange={setInstanceState}
+        />
+      )}
+    </UnityHostContext.Provider>
+  );
+}
+
+interface UnityHostInstanceProps {
+  build: string;
+  hash: string | undefined;  // From builds.json; undefined = unversioned URLs (not cached by the service worker)
+  bridge: UnityBridge;
+  isVisible: boolean;
+  hostElement: HTMLElement;
+  onStateChange: (state: UnityInstanceState) => void;
+}
+
+/**
+ * One Unity build (remounted when the avatar changes or on retryLoad - loader URLs are fixed per context)
+ */
+function UnityHostInstance({ build, hash, bridge, isVisible, hostElement, onStateChange }: UnityHostInstanceProps) {
+  const unityContext = useUnityContext({
+    ...unityBuildUrls(build, hash),
+    webglContextAttributes: {
+      alpha: true,
+      premultipliedAlpha: false,
+      preserveDrawingBuffer: false,
+    },
+  });
+  const { unityProvider, isLoaded, loadingProgression, initialisationError, UNSAFE__unityInstance } = unityContext;
+  useUnityBridge(bridge, unityContext);
+  const frameBuffer = useUnityFrameBuffer(unityContext);
+
+  const [unitySupport] = useState(checkUnitySupport);
+  const [isLoadFailed, setIsLoadFailed] = useState(false);
+  // Stays mounted after the first visit until the keep-warm limit
+  const [isWarm, setIsWarm] = useState(false);
+  const isPaused = useRef(false);
+  const moduleRef = useRef<MainLoopModule | undefined>(undefined);
+  moduleRef.current = UNSAFE__unityInstance?.Module as MainLoopModule | undefined;
+
+  // Quit() only sets a flag the main loop reads - a paused instance never quits and leaks its heap
+  const resumeForUnload = useCallback(() => {
+    if (!isPaused.current) return;
+    isPaused.current = false;
+    moduleRef.current?.resumeMainLoop?.();
+  }, []);
+
+  // Before <Unity> unmounts on an avatar change (key={build}); layout cleanup runs ahead of its Quit()
+  useLayoutEffect(() => resumeForUnload, [resumeForUnload]);
+
+  const fallbackReason: UnityFallbackReason | null = !unitySupport.supported
+    ? unitySupport.reason
+    : isLoadFailed ? 'load_error' : null;
+  const isMounted = !fallbackReason && (isVisible || isWarm);
+
+  useEffect(() => {
+    onStateChange({ build, isLoaded, loadingProgression, fallbackReason, frameBuffer });
+  }, [onStateChange, build, isLoaded, loadingProgression, fallbackReason, frameBuffer]);
+
+  useEffect(() => {
+    if (!unitySupport.supported) {
+      console.warn(`[UnityHost] Unity not supported (${unitySupport.reason}) - using 2D avatar`);
+    }
+  }, [unitySupport]);
+
+  useEffect(() => {
+    if (initialisationError) {
+      console.error('[UnityHost] Unity failed to load - using 2D avatar:', initialisationError);
+      setIsLoadFailed(true);
+    }
+  }, [initialisationError]);
+
+  // Restarted on every progress update; much longer once downloaded (compile/startup reports nothing)
+  useEffect(() => {
+    if (!isMounted || isLoaded) return;
+    const stallMs = loadingProgression >= UNITY_DOWNLOADED_PROGRESS ? UNITY_STARTUP_STALL_MS : UNITY_LOAD_STALL_MS;
+    const timer = setTimeout(() => {
+      console.error(`[UnityHost] Unity loading stalled at ${Math.round(loadingProgression * 100)}% - using 2D avatar`);
+      setIsLoadFailed(true);
+    }, stallMs);
+    return () => clearTimeout(timer);
+  }, [isMounted, isLoaded, loadingProgression]);
+
+  // Keep warm while parked, until the idle limit or memory pressure
+  useEffect(() => {
+    if (isVisible) {
+      setIsWarm(true);
+      return;
+    }
+    if (!isWarm) return;
+
+    const unload = (reason: string) => {
+      console.log(`[UnityHost] Unloading parked Unity instance (${reason})`);
+      resumeForUnload();
+      setIsWarm(false);
+    };
+    if (UNITY_KEEP_WARM_MS <= 0) {
+      unload('keep-warm disabled');
+      return;
+    }
+
+    const timer = setTimeout(() => unload('idle limit'), UNITY_KEEP_WARM_MS);
+    const memoryCheck = setInterval(() => {
+      if (isUnderMemoryPressure()) unload('memory pressure');
+    }, MEMORY_CHECK_INTERVAL_MS);
+    return () => {
+      clearTimeout(timer);
+      clearInterval(memoryCheck);
+    };
+  }, [isVisible, isWarm, resumeForUnload]);
+
+  // Pause off-screen, resume on return
+  useEffect(() => {
+    if (!isLoaded) {
+      isPaused.current = false;  // A reloaded instance starts running
+      return;
+    }
+    const module = moduleRef.current;
+
+    if (isVisible) {
+      if (!isPaused.current) return;
+      isPaused.current = false;
+      module?.resumeMainLoop?.();
+      bridge.post({ action: 'setPaused', paused: false });
+      console.log('[UnityHost] Unity resumed');
+    } else {
+      isPaused.current = true;
+      bridge.post({ action: 'setPaused', paused: true });
+      module?.pauseMainLoop?.();
+      console.log('[UnityHost] Unity parked and paused');
+    }
+  }, [isLoaded, isVisible, bridge, UNSAFE__unityInstance]);
+
+  if (!isMounted) return null;
+
+  return createPortal(
+    <Unity unityProvider={unityProvider} devicePixelRatio={window.devicePixelRatio} style={{ width: '100%', height: '100%' }} />,
+    hostElement
+  );
+}
+
+/**
+ * Where AvatarView shows the hosted Unity canvas
+ */
+export function UnityHostSlot() {
+  const { attachSlot } = useUnityHost();
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!containerRef.current) return;
+    return attachSlot(containerRef.current);
+  }, [attachSlot]);
+
+  return <div ref={containerRef} style={{ width: '100%', height: '100%' }} />;
+}
@@ -1,2 +1,5 @@
 export { LiveKitProvider } from './LiveKitProvider';
 export { LiveKitSessionHandler, useLiveKitSession } from './LiveKitSessionHandler';
+export { MockLiveKitProvider, MockSessionHandler } from './MockSessionProvider';
+export { ReplaySessionHandler, useReplay } from './ReplaySessionProvider';
+export { UnityHostProvider, UnityHostSlot, useUnityHost } from './UnityHostProvider';
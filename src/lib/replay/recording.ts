@@ -0,0 +1,160 @@
+import { AgentState } from '@/lib/types';
+
+/**
+ * Session recording file (.avrec)
+ *
+ *   offset  size  field
+ *   0       5     magic 'AVREC'
+ *   5       1     version (1)
+ *   6       4     metadata length N (u32 little-endian)
+ *   10      N     metadata JSON (UTF-8): SessionRecording
+ *   10+N    ...   agent audio (MediaRecorder output, recording.audio.mimeType)
+ *
+ * Event times (t) are ms since the recording started. Data packets are stored
+ * raw (base64), so replay goes through the same decoder as a live session.
+ */
+export const RECORDING_VERSION = 1;
+export const RECORDING_EXTENSION = '.avrec';
+
+const MAGIC = 'AVREC';
+const PREAMBLE_LENGTH = 10;
+
+export type RecordedEvent =
+  | { t: number; type: 'data'; topic?: string; payload: string }
+  | { t: number; type: 'agentState'; state: AgentState };
+
+export interface SessionRecording {
+  version: number;
+  createdAt: string;
+  buildName: string;
+  durationMs: number;
+  events: RecordedEvent[];
+  audio: { mimeType: string; startMs: number } | null;
+}
+
+export class RecordingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RecordingError';
+  }
+}
+
+export function encodeRecording(recording: SessionRecording, audio: Blob | null): Blob {
+  const metadata = new TextEncoder().encode(JSON.stringify(recording));
+  const preamble = new Uint8Array(PREAMBLE_LENGTH);
+  preamble.set(new TextEncoder().encode(MAGIC), 0);
+  const view = new DataView(preamble.buffer);
+  view.setUint8(5, RECORDING_VERSION);
+  view.setUint32(6, metadata.length, true);
+
+  return new Blob(audio ? [preamble, metadata, audio] : [preamble, metadata], { type: 'application/octet-stream' });
+}
+
+export async function decodeRecording(file: Blob): Promise<{ recording: SessionRecording; audio: Blob | null }> {
+  const preamble = new Uint8Array(await file.slice(0, PREAMBLE_LENGTH).arrayBuffer());
+  if (preamble.length < PREAMBLE_LENGTH || new TextDecoder().decode(preamble.subarray(0, 5)) !== MAGIC) {
+    throw new RecordingError('Not a session recording');
+  }
+
+  const view = new DataView(preamble.buffer);
+  const version = view.getUint8(5);
+  if (version !== RECORDING_VERSION) {
+    throw new RecordingError(`Unsupported recording version: ${version}`);
+  }
+
+  const metadataEnd = PREAMBLE_LENGTH + view.getUint32(6, true);
+  if (metadataEnd > file.size) {
+    throw new RecordingError('Recording is truncated');
+  }
+
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(await file.slice(PREAMBLE_LENGTH, metadataEnd).text());
+  } catch {
+    throw new RecordingError('Recording metadata is corrupt');
+  }
+  const recording = parseRecording(metadata);
+
+  const audio = recording.audio && file.size > metadataEnd
+    ? file.slice(metadataEnd, file.size, recording.audio.mimeType)
+    : null;
+  return { recording, audio };
+}
+
+/**
+ * Validate the metadata JSON of a recording
+ */
+function parseRecording(json: unknown): SessionRecording {
+  if (!json || typeof json !== 'object') {
+    throw new RecordingError('Recording metadata must be an object');
+  }
+  const { version, createdAt, buildName, durationMs, events, audio } = json as Record<string, unknown>;
+  if (typeof durationMs !== 'number' || !Number.isFinite(durationMs) || durationMs < 0) {
+    throw new RecordingError('Recording "durationMs" must be a non-negative number');
+  }
+  if (!Array.isArray(events)) {
+    throw new RecordingError('Recording "events" must be an array');
+  }
+
+  return {
+    version: typeof version === 'number' ? version : RECORDING_VERSION,
+    createdAt: typeof createdAt === 'string' ? createdAt : '',
+    buildName: typeof buildName === 'string' ? buildName : '',
+    durationMs,
+    events: events.map(parseEvent),
+    audio: parseAudio(audio),
+  };
+}
+
+function parseEvent(value: unknown, index: number): RecordedEvent {
+  if (!value || typeof value !== 'object') {
+    throw new RecordingError(`events[${index}]: must be an object`);
+  }
+  const { t, type, topic, payload, state } = value as Record<string, unknown>;
+  if (typeof t !== 'number' || !Number.isFinite(t)) {
+    throw new RecordingError(`events[${index}].t: must be a number`);
+  }
+
+  if (type === 'data') {
+    if (typeof payload !== 'string') {
+      throw new RecordingError(`events[${index}].payload: must be a base64 string`);
+    }
+    if (topic !== undefined && typeof topic !== 'string') {
+      throw new RecordingError(`events[${index}].topic: must be a string`);
+    }
+    return { t, type, payload, ...(topic !== undefined ? { topic } : {}) };
+  }
+  if (type === 'agentState') {
+    if (typeof state !== 'string') {
+      throw new RecordingError(`events[${index}].state: must be a string`);
+    }
+    return { t, type, state: state as AgentState };
+  }
+  throw new RecordingError(`events[${index}].type: unknown event type ${String(type)}`);
+}
+
+function parseAudio(value: unknown): SessionRecording['audio'] {
+  if (value === null || value === undefined) return null;
+  const { mimeType, startMs } = (typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  if (typeof mimeType !== 'string' || typeof startMs !== 'number') {
+    throw new RecordingError('Recording "audio" must be null or { mimeType, startMs }');
+  }
+  return { mimeType, startMs };
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,100 @@
+import { AgentState } from '@/lib/types';
+import { base64ToBytes, type SessionRecording } from './recording';
+
+export interface ReplayHandlers {
+  onData: (payload: Uint8Array, topic?: string) => void;
+  onAgentState: (state: AgentState) => void;
+  onEnded: () => void;
+}
+
+/**
+ * ReplayPlayer - Plays a SessionRecording back on its original timeline
+ *
+ * Events are dispatched when their time comes up; the recorded agent audio
+ * starts at its recorded offset on the same clock.
+ */
+export class ReplayPlayer {
+  private recording: SessionRecording;
+  private handlers: ReplayHandlers;
+  private audio: HTMLAudioElement | null = null;
+  private audioUrl: string | null = null;
+
+  private startMs = 0;
+  private nextEvent = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private audioTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(recording: SessionRecording, audio: Blob | null, handlers: ReplayHandlers) {
+    this.recording = recording;
+    this.handlers = handlers;
+    if (audio) {
+      this.audioUrl = URL.createObjectURL(audio);
+      this.audio = new Audio(this.audioUrl);
+      this.audio.preload = 'auto';
+    }
+  }
+
+  /**
+   * Recorded agent audio (for volume analysis); null if the recording has none
+   */
+  get audioElement(): HTMLAudioElement | null {
+    return this.audio;
+  }
+
+  play(): void {
+    this.stop();
+    this.startMs = performance.now();
+    this.nextEvent = 0;
+
+    if (this.audio && this.recording.audio) {
+      const audio = this.audio;
+      audio.currentTime = 0;
+      this.audioTimer = setTimeout(() => {
+        audio.play().catch((error) => console.warn('[ReplayPlayer] Audio playback blocked:', error));
+      }, this.recording.audio.startMs);
+    }
+
+    this.schedule();
+  }
+
+  stop(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    if (this.audioTimer !== null) clearTimeout(this.audioTimer);
+    this.timer = null;
+    this.audioTimer = null;
+    this.audio?.pause();
+  }
+
+  dispose(): void {
+    this.stop();
+    if (this.audioUrl) URL.revokeObjectURL(this.audioUrl);
+  }
+
+  private schedule(): void {
+    const { events, durationMs } = this.recording;
+    const nextT = this.nextEvent < events.length ? events[this.nextEvent].t : durationMs;
+    const delay = Math.max(0, nextT - (performance.now() - this.startMs));
+    this.timer = setTimeout(this.dispatchDue, delay);
+  }
+
+  private dispatchDue = () => {
+    const { events, durationMs } = this.recording;
+    const elapsed = performance.now() - this.startMs;
+
+    while (this.nextEvent < events.length && events[this.nextEvent].t <= elapsed) {
+      const event = events[this.nextEvent++];
+      if (event.type === 'data') {
+        this.handlers.onData(base64ToBytes(event.payload), event.topic);
+      } else {
+        this.handlers.onAgentState(event.state);
+      }
+    }
+
+    if (this.nextEvent >= events.length && elapsed >= durationMs) {
+      this.stop();
+      this.handlers.onEnded();
+      return;
+    }
+    this.schedule();
+  };
+}
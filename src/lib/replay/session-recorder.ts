@@ -0,0 +1,123 @@
+import { RoomEvent, Track, type DataPacket_Kind, type RemoteParticipant, type Room } from 'livekit-client';
+import { findAgentParticipant, isAgentParticipant } from '@/lib/livekit';
+import { AgentState } from '@/lib/types';
+import { RECORDING_VERSION, bytesToBase64, encodeRecording, type RecordedEvent } from './recording';
+
+// First supported wins (Safari has no webm)
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+/**
+ * SessionRecorder - Captures a live avatar session for offline replay
+ *
+ * Records the agent's data-channel packets (frames and control signals, raw),
+ * agent state changes and the agent audio track (MediaRecorder) on one clock.
+ * stop() returns the .avrec file (see recording.ts).
+ */
+export class SessionRecorder {
+  private room: Room;
+  private buildName: string;
+  private startMs = 0;
+  private events: RecordedEvent[] = [];
+  private recording = false;
+
+  private mediaRecorder: MediaRecorder | null = null;
+  private audioChunks: Blob[] = [];
+  private audioMimeType = '';
+  private audioStartMs = 0;
+
+  constructor(room: Room, buildName: string) {
+    this.room = room;
+    this.buildName = buildName;
+  }
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  start(): void {
+    if (this.recording) return;
+    this.recording = true;
+    this.startMs = performance.now();
+    this.events = [];
+    this.audioChunks = [];
+
+    this.room.on(RoomEvent.DataReceived, this.handleData);
+    this.room.on(RoomEvent.TrackSubscribed, this.startAudio);
+    this.startAudio();
+    console.log('[SessionRecorder] Recording started');
+  }
+
+  recordAgentState(state: AgentState): void {
+    if (!this.recording) return;
+    this.events.push({ t: this.elapsed(), type: 'agentState', state });
+  }
+
+  async stop(): Promise<Blob> {
+    this.room.off(RoomEvent.DataReceived, this.handleData);
+    this.room.off(RoomEvent.TrackSubscribed, this.startAudio);
+    const durationMs = this.elapsed();
+    this.recording = false;
+
+    const audio = await this.stopAudio();
+    console.log(`[SessionRecorder] Recording stopped: ${this.events.length} events, ${Math.round(durationMs)}ms`);
+
+    return encodeRecording({
+      version: RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      buildName: this.buildName,
+      durationMs,
+      events: this.events,
+      audio: audio ? { mimeType: this.audioMimeType, startMs: this.audioStartMs } : null,
+    }, audio);
+  }
+
+  private elapsed(): number {
+    return Math.round((performance.now() - this.startMs) * 10) / 10;
+  }
+
+  private handleData = (
+    payload: Uint8Array,
+    participant?: RemoteParticipant,
+    _kind?: DataPacket_Kind,
+    topic?: string
+  ) => {
+    if (!isAgentParticipant(participant)) return;
+    this.events.push({ t: this.elapsed(), type: 'data', topic, payload: bytesToBase64(payload) });
+  };
+
+  // Agent audio may be subscribed after recording started
+  private startAudio = () => {
+    if (this.mediaRecorder || typeof MediaRecorder === 'undefined') return;
+
+    const mediaStream = findAgentParticipant(this.room)?.getTrackPublication(Track.Source.Microphone)?.track?.mediaStream;
+    if (!mediaStream) return;
+
+    const mimeType = AUDIO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type));
+    try {
+      this.mediaRecorder = new MediaRecorder(mediaStream, mimeType ? { mimeType } : undefined);
+    } catch (error) {
+      console.warn('[SessionRecorder] Cannot record agent audio:', error);
+      return;
+    }
+
+    this.audioMimeType = this.mediaRecorder.mimeType || mimeType || 'audio/webm';
+    this.mediaRecorder.ondataavailable = (event) => {
+      if (event.data.size > 0) this.audioChunks.push(event.data);
+    };
+    this.mediaRecorder.start(1000);
+    this.audioStartMs = this.elapsed();
+  };
+
+  private stopAudio(): Promise<Blob | null> {
+    const recorder = this.mediaRecorder;
+    this.mediaRecorder = null;
+    if (!recorder) return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      recorder.onstop = () => {
+        resolve(this.audioChunks.length > 0 ? new Blob(this.audioChunks, { type: this.audioMimeType }) : null);
+      };
+      recorder.stop();
+    });
+  }
+}
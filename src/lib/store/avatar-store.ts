@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import type { UnityBuildHashes } from '@/lib/unity/build-cache';
+import { FALLBACK_MANIFEST, resolveAvatar, type AvatarEntry, type AvatarManifest } from '@/lib/unity/manifest';
+
+interface AvatarState {
+  // Chosen character (persisted); null = manifest default
+  avatarId: string | null;
+  // Loaded at startup by useAvatarManifest (not persisted)
+  manifest: AvatarManifest;
+  // Content hash per build from /unity/builds.json (not persisted); null = not fetched yet
+  buildHashes: UnityBuildHashes | null;
+  setAvatarId: (id: string) => void;
+  setManifest: (manifest: AvatarManifest) => void;
+  setBuildHashes: (buildHashes: UnityBuildHashes) => void;
+}
+
+export const useAvatarStore = create<AvatarState>()(
+  persist(
+    (set) => ({
+      avatarId: null,
+      manifest: FALLBACK_MANIFEST,
+      setAvatarId: (id) => set({ avatarId: id }),
+      buildHashes: null,
+      setManifest: (manifest) => set({ manifest }),
+      setBuildHashes: (buildHashes) => set({ buildHashes }),
+    }),
+    {
+      name: 'avatar-character',
+      partialize: (state) => ({ avatarId: state.avatarId }),
+    }
+  )
+);
+
+export function selectAvatar(state: Pick<AvatarState, 'avatarId' | 'manifest'>): AvatarEntry {
+  return resolveAvatar(state.manifest, state.avatarId);
+}
@@ -11,6 +11,11 @@ export interface ChatMessage {
 // Agent 상태
 export type AgentState = 'initializing' | 'idle' | 'listening' | 'thinking' | 'speaking';
 
+// Agent를 사용할 수 없는 이유
+// - join_timeout: 연결 후 제한 시간 내에 Agent가 입장하지 않음
+// - agent_left: 세션 도중 Agent가 방을 나감
+export type AgentUnavailableReason = 'join_timeout' | 'agent_left';
+
 // 화면 타입
 export type ScreenType = 'chat' | 'avatar';
 
@@ -26,21 +31,51 @@ export interface HistoryMessage {
   content: string;
 }
 
+// 선택한 아바타 (Agent가 음성 선택에 사용)
+export interface AvatarMetadata {
+  id: string;      // manifest.json avatar id
+  voice?: string;  // manifest.json voice, passed as-is
+}
+
 // LiveKit 메타데이터
 export interface ClientMetadata {
   language: string;
   faqs?: FAQItem[];
   chatHistory?: HistoryMessage[];
+  sessionId?: string;  // ADK session ID (links the LiveKit room to the ADK conversation)
+  avatar?: AvatarMetadata;
 }
 
 // 토큰 요청/응답
-export interface TokenRequest {
+// 재접속 요청 (이전 토큰 응답의 room + roomGrant)
+export interface RejoinRequest {
   room: string;
-  identity: string;
-  livekitUrl: string;
+  grant: string;
+}
+
+// room and identity are both chosen server-side (identity from the signed cookie)
+export interface TokenRequest {
   metadata: ClientMetadata;
+  agentName?: string;  // Agent to dispatch explicitly (must be allowed server-side)
+  rejoin?: RejoinRequest;  // Mint a fresh token for the same room instead of a new one
 }
 
 export interface TokenResponse {
   token: string;
+  room: string;
+  identity: string;
+  roomGrant: string;   // Signed proof for rejoining this room
+  agentName?: string;  // Agent actually dispatched (omitted for automatic dispatch)
+}
+
+// 토큰 에러 응답 (metadata 검증 실패 시 code/details 포함)
+export interface TokenErrorDetail {
+  path: string;
+  message: string;
+}
+
+export interface TokenErrorResponse {
+  error: string;
+  code?: 'invalid_metadata' | 'metadata_too_large';
+  details?: TokenErrorDetail[];
 }
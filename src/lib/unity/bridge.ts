@@ -0,0 +1,179 @@
+import type { UnityEventParameter } from 'react-unity-webgl';
+import { AgentState } from '@/lib/types';
+
+const BRIDGE_OBJECT = 'ReactBridge';
+
+/**
+ * Messages React sends to ReactBridge.OnReactMessage (JSON)
+ */
+export type UnityOutboundMessage =
+  | { action: 'setAgentState'; state: AgentState }
+  | { action: 'setBackgroundColor'; backgroundColor: string }
+  | { action: 'setPaused'; paused: boolean };  // Off-screen: stop audio and animation
+
+export type UnityOutboundAction = UnityOutboundMessage['action'];
+
+/**
+ * Events the Unity build dispatches to React, with their payloads
+ */
+export interface UnityBridgeEvents {
+  ready: void;
+  animationIdle: void;
+  gestureFinished: { gesture: string };
+  frameTime: { ms: number };
+  error: { message: string };
+}
+
+export type UnityBridgeEvent = keyof UnityBridgeEvents;
+type UnityBridgeListener<E extends UnityBridgeEvent> = (payload: UnityBridgeEvents[E]) => void;
+
+interface InboundCodec<E extends UnityBridgeEvent> {
+  name: string;  // dispatchReactUnityEvent name
+  decode: (...params: UnityEventParameter[]) => UnityBridgeEvents[E];
+}
+
+const INBOUND: { [E in UnityBridgeEvent]: InboundCodec<E> } = {
+  ready: { name: 'AvatarReady', decode: () => undefined },
+  animationIdle: { name: 'AnimationIdle', decode: () => undefined },
+  gestureFinished: { name: 'GestureFinished', decode: (gesture) => ({ gesture: String(gesture) }) },
+  frameTime: { name: 'ReportFrameTime', decode: (ms) => ({ ms: Number(ms) }) },
+  error: { name: 'AvatarError', decode: (message) => ({ message: String(message) }) },
+};
+
+type SendMessage = (gameObjectName: string, methodName: string, parameter?: string) => void;
+type EventHandler = (...params: UnityEventParameter[]) => UnityEventParameter;
+
+/**
+ * react-unity-webgl's event registration (useUnityContext)
+ */
+export interface UnityEventSource {
+  addEventListener: (eventName: string, callback: EventHandler) => void;
+  removeEventListener: (eventName: string, callback: EventHandler) => void;
+}
+
+export interface UnityBridgeOptions {
+  readyTimeoutMs?: number;  // Builds without AvatarReady count as ready this long after load
+}
+
+/**
+ * UnityBridge - Typed messages to and events from ReactBridge
+ *
+ * - post() queues control messages until Unity reports AvatarReady; only the
+ *   latest message per action is kept, so Unity gets the current state once
+ *   (and again after the build is reloaded)
+ * - sendAnimationData() is real-time: sent as soon as the instance is loaded, never queued
+ * - on() subscribes to typed events dispatched by the build
+ */
+export class UnityBridge {
+  private send: SendMessage | null = null;
+  private ready = false;
+  private readyReported = false;  // AvatarReady can arrive before the loader resolves
+  private pending = new Map<UnityOutboundAction, UnityOutboundMessage>();
+  private sent = new Map<UnityOutboundAction, UnityOutboundMessage>();
+  private listeners = new Map<UnityBridgeEvent, Set<(payload: unknown) => void>>();
+  private readyTimeoutMs: number;
+  private readyTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: UnityBridgeOptions = {}) {
+    this.readyTimeoutMs = options.readyTimeoutMs ?? 3000;
+  }
+
+  get isReady(): boolean {
+    return this.ready;
+  }
+
+  /**
+   * Set the loaded instance's SendMessage, or null when it is gone
+   */
+  attach(send: SendMessage | null): void {
+    this.send = send;
+    if (this.readyTimer !== null) clearTimeout(this.readyTimer);
+    this.readyTimer = null;
+
+    if (!send) {
+      // A reloaded build starts from scratch - resend the last state it had
+      this.sent.forEach((message, action) => {
+        if (!this.pending.has(action)) this.pending.set(action, message);
+      });
+      this.sent.clear();
+      this.ready = false;
+      this.readyReported = false;
+      return;
+    }
+    if (this.readyReported) {
+      this.markReady();
+    } else if (!this.ready) {
+      this.readyTimer = setTimeout(() => {
+        console.warn(`[UnityBridge] No AvatarReady within ${this.readyTimeoutMs}ms - assuming a build without it`);
+        this.markReady();
+      }, this.readyTimeoutMs);
+    }
+  }
+
+  /**
+   * Register listeners for every inbound Unity event; returns unsubscribe
+   */
+  connect({ addEventListener, removeEventListener }: UnityEventSource): () => void {
+    const handlers = (Object.keys(INBOUND) as UnityBridgeEvent[]).map((event) => {
+      const { name, decode } = INBOUND[event] as InboundCodec<typeof event>;
+      const handler: EventHandler = (...params) => this.receive(event, decode(...params));
+      addEventListener(name, handler);
+      return { name, handler };
+    });
+
+    return () => handlers.forEach(({ name, handler }) => removeEventListener(name, handler));
+  }
+
+  post(message: UnityOutboundMessage): void {
+    if (!this.ready || !this.send) {
+      this.pending.set(message.action, message);
+      return;
+    }
+    this.send(BRIDGE_OBJECT, 'OnReactMessage', JSON.stringify(message));
+    this.sent.set(message.action, message);
+  }
+
+  /**
+   * OnAnimationData: comma-joined frame bytes, 'final' or 'interrupted'
+   * Dropped before the instance is loaded (stale by the time it would arrive); false when dropped
+   */
+  sendAnimationData(data: string): boolean {
+    if (!this.send) return false;
+    this.send(BRIDGE_OBJECT, 'OnAnimationData', data);
+    return true;
+  }
+
+  on<E extends UnityBridgeEvent>(event: E, listener: UnityBridgeListener<E>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    const untyped = listener as (payload: unknown) => void;
+    listeners.add(untyped);
+    return () => listeners.delete(untyped);
+  }
+
+  private receive<E extends UnityBridgeEvent>(event: E, payload: UnityBridgeEvents[E]): void {
+    if (event === 'ready') {
+      console.log('[UnityBridge] Avatar ready');
+      this.readyReported = true;
+      this.markReady();
+    } else if (event === 'error') {
+      console.error('[UnityBridge] Unity error:', (payload as UnityBridgeEvents['error']).message);
+    }
+
+    this.listeners.get(event)?.forEach((listener) => listener(payload));
+  }
+
+  private markReady(): void {
+    if (this.readyTimer !== null) clearTimeout(this.readyTimer);
+    this.readyTimer = null;
+    if (this.ready || !this.send) return;
+
+    this.ready = true;
+    const queued = [...this.pending.values()];
+    this.pending.clear();
+    queued.forEach((message) => this.post(message));
+  }
+}
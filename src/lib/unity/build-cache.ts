@@ -0,0 +1,54 @@
+/**
+ * Unity build caching with the service worker in public/sw.js
+ *
+ * /unity/builds.json maps each build to a content hash (generated by the
+ * unity-build-hashes plugin in vite.config.ts). Build URLs carry it as ?v=,
+ * so a new build is a new URL and the worker keeps one cache per version.
+ */
+export const BUILD_HASHES_URL = '/unity/builds.json';
+const SERVICE_WORKER_URL = '/sw.js';
+
+export type UnityBuildHashes = Record<string, string>;
+
+export interface UnityBuildUrls {
+  loaderUrl: string;
+  dataUrl: string;
+  frameworkUrl: string;
+  codeUrl: string;
+}
+
+export function unityBuildUrls(build: string, hash?: string): UnityBuildUrls {
+  const base = `/unity/${build}/Build/${build}`;
+  const version = hash ? `?v=${hash}` : '';
+  return {
+    loaderUrl: `${base}.loader.js${version}`,
+    dataUrl: `${base}.data${version}`,
+    frameworkUrl: `${base}.framework.js${version}`,
+    codeUrl: `${base}.wasm${version}`,
+  };
+}
+
+export function parseBuildHashes(value: unknown): UnityBuildHashes {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+  );
+}
+
+export function isServiceWorkerSupported(): boolean {
+  return 'serviceWorker' in navigator;
+}
+
+export async function registerUnityServiceWorker(): Promise<ServiceWorkerRegistration> {
+  return navigator.serviceWorker.register(SERVICE_WORKER_URL);
+}
+
+/**
+ * Ask the active worker to fetch whatever is missing of this build version
+ * (and drop older versions of it). No-op until the worker is active.
+ */
+export async function precacheUnityBuild(build: string, hash: string): Promise<void> {
+  const registration = await navigator.serviceWorker.ready;
+  const urls = Object.values(unityBuildUrls(build, hash));
+  registration.active?.postMessage({ type: 'precache-unity', build, hash, urls });
+}
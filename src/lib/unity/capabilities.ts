@@ -0,0 +1,54 @@
+/**
+ * Can this device run the Unity WebGL avatar?
+ *
+ * - webgl2: no WebGL2 context (Unity 2022+ WebGL builds require it)
+ * - memory: navigator.deviceMemory below MIN_DEVICE_MEMORY_GB (only Chromium reports it)
+ * - ios_version: iOS older than MIN_IOS_VERSION (WebGL2 is on by default from Safari 15)
+ */
+export type UnityUnsupportedReason = 'webgl2' | 'memory' | 'ios_version';
+
+// Unsupported, or the build failed to load
+export type UnityFallbackReason = UnityUnsupportedReason | 'load_error';
+
+export type UnitySupport = { supported: true } | { supported: false; reason: UnityUnsupportedReason };
+
+const MIN_IOS_VERSION = 15;
+const MIN_DEVICE_MEMORY_GB = 2;
+
+function hasWebGL2(): boolean {
+  try {
+    const canvas = document.createElement('canvas');
+    const gl = canvas.getContext('webgl2');
+    // Free the context right away - browsers cap live contexts
+    gl?.getExtension('WEBGL_lose_context')?.loseContext();
+    return gl !== null;
+  } catch {
+    return false;
+  }
+}
+
+// iPhone / iPad (non-desktop UA) only; iPadOS in desktop mode reports as macOS
+function iOSMajorVersion(): number | null {
+  const match = navigator.userAgent.match(/(?:iPhone|iPad|iPod).* OS (\d+)_/);
+  return match ? Number(match[1]) : null;
+}
+
+let cachedSupport: UnitySupport | null = null;
+
+export function checkUnitySupport(): UnitySupport {
+  if (cachedSupport) return cachedSupport;
+
+  const iosVersion = iOSMajorVersion();
+  const deviceMemory = (navigator as Navigator & { deviceMemory?: number }).deviceMemory;
+
+  if (iosVersion !== null && iosVersion < MIN_IOS_VERSION) {
+    cachedSupport = { supported: false, reason: 'ios_version' };
+  } else if (!hasWebGL2()) {
+    cachedSupport = { supported: false, reason: 'webgl2' };
+  } else if (deviceMemory !== undefined && deviceMemory < MIN_DEVICE_MEMORY_GB) {
+    cachedSupport = { supported: false, reason: 'memory' };
+  } else {
+    cachedSupport = { supported: true };
+  }
+  return cachedSupport;
+}
@@ -0,0 +1,129 @@
+import { UNITY_BUILD_NAME } from '@/lib/config';
+
+/**
+ * Available characters (public/unity/manifest.json)
+ *
+ * {
+ *   "version": 1,
+ *   "default": "eric",
+ *   "avatars": [
+ *     { "id": "eric", "name": "Eric", "build": "eric", "thumbnail": "eric/thumbnail.png",
+ *       "voice": "ko-KR-male-1", "tuning": "eric/tuning.json" }
+ *   ]
+ * }
+ *
+ * build is the folder under public/unity/ (Build/{build}.loader.js etc.).
+ * thumbnail and tuning are relative to public/unity/ unless absolute; tuning
+ * defaults to {build}/tuning.json. voice is passed to the agent as-is.
+ */
+export const AVATAR_MANIFEST_VERSION = 1;
+export const AVATAR_MANIFEST_URL = '/unity/manifest.json';
+
+const AVATAR_ID_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+export interface AvatarEntry {
+  id: string;
+  name: string;
+  build: string;
+  thumbnail?: string;
+  voice?: string;
+  tuning: string;
+}
+
+export interface AvatarManifest {
+  version: number;
+  default: string;
+  avatars: AvatarEntry[];
+}
+
+export class AvatarManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AvatarManifestError';
+  }
+}
+
+function resolveUnityPath(path: string): string {
+  return path.startsWith('/') || /^https?:\/\//.test(path) ? path : `/unity/${path}`;
+}
+
+/**
+ * Single-character manifest from VITE_UNITY_BUILD_NAME (deployments without manifest.json)
+ */
+export const FALLBACK_MANIFEST: AvatarManifest = {
+  version: AVATAR_MANIFEST_VERSION,
+  default: UNITY_BUILD_NAME,
+  avatars: [{
+    id: UNITY_BUILD_NAME,
+    name: UNITY_BUILD_NAME,
+    build: UNITY_BUILD_NAME,
+    tuning: resolveUnityPath(`${UNITY_BUILD_NAME}/tuning.json`),
+  }],
+};
+
+/**
+ * Validate a parsed manifest.json
+ */
+export function parseAvatarManifest(json: unknown): AvatarManifest {
+  if (!json || typeof json !== 'object') {
+    throw new AvatarManifestError('Manifest must be an object');
+  }
+  const { version, default: defaultId, avatars } = json as Record<string, unknown>;
+  if (version !== AVATAR_MANIFEST_VERSION) {
+    throw new AvatarManifestError(`Unsupported manifest version: ${String(version)}`);
+  }
+  if (!Array.isArray(avatars) || avatars.length === 0) {
+    throw new AvatarManifestError('"avatars" must be a non-empty array');
+  }
+
+  const entries = avatars.map(parseEntry);
+  const ids = new Set(entries.map((entry) => entry.id));
+  if (ids.size !== entries.length) {
+    throw new AvatarManifestError('Avatar ids must be unique');
+  }
+  if (defaultId !== undefined && (typeof defaultId !== 'string' || !ids.has(defaultId))) {
+    throw new AvatarManifestError(`"default" is not a listed avatar: ${String(defaultId)}`);
+  }
+
+  return {
+    version,
+    default: (defaultId as string | undefined) ?? entries[0].id,
+    avatars: entries,
+  };
+}
+
+function parseEntry(value: unknown, index: number): AvatarEntry {
+  if (!value || typeof value !== 'object') {
+    throw new AvatarManifestError(`avatars[${index}]: must be an object`);
+  }
+  const { id, name, build, thumbnail, voice, tuning } = value as Record<string, unknown>;
+  if (typeof id !== 'string' || !AVATAR_ID_PATTERN.test(id)) {
+    throw new AvatarManifestError(`avatars[${index}].id: must match ${AVATAR_ID_PATTERN}`);
+  }
+  if (typeof build !== 'string' || !build) {
+    throw new AvatarManifestError(`${id}: "build" must be a folder name`);
+  }
+  for (const [field, fieldValue] of Object.entries({ name, thumbnail, voice, tuning })) {
+    if (fieldValue !== undefined && typeof fieldValue !== 'string') {
+      throw new AvatarManifestError(`${id}.${field}: must be a string`);
+    }
+  }
+
+  return {
+    id,
+    name: (name as string | undefined) ?? id,
+    build,
+    ...(thumbnail ? { thumbnail: resolveUnityPath(thumbnail as string) } : {}),
+    ...(voice ? { voice: voice as string } : {}),
+    tuning: resolveUnityPath((tuning as string | undefined) ?? `${build}/tuning.json`),
+  };
+}
+
+/**
+ * The chosen avatar, or the manifest default when it is gone (or nothing was chosen)
+ */
+export function resolveAvatar(manifest: AvatarManifest, avatarId: string | null): AvatarEntry {
+  return manifest.avatars.find((avatar) => avatar.id === avatarId)
+    ?? manifest.avatars.find((avatar) => avatar.id === manifest.default)
+    ?? manifest.avatars[0];
+}
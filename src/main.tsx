@@ -1,10 +1,14 @@
 import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import { App } from './App';
+import { UnityHostProvider } from './lib/providers/UnityHostProvider';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {/* Above App so the Unity instance survives screen switches and session restarts */}
+    <UnityHostProvider>
+      <App />
+    </UnityHostProvider>
   </StrictMode>
 );
@@ -0,0 +1,133 @@
+import { AgentUnavailableReason } from '@/lib/types';
+import { useTranslation } from '@/lib/i18n';
+import { Header } from '@/components/Header';
+import IconChat from '@/assets/icon-chat.svg?react';
+import avatarLoadingImage from '@/assets/image-avatar-loading.png';
+
+interface AgentUnavailableViewProps {
+  reason: AgentUnavailableReason;
+  onRetry: () => void;
+  onFallbackToChat: () => void;
+  onBack: () => void;
+}
+
+/**
+ * AgentUnavailableView - Shown over the avatar screen when the agent never joined or left
+ * Offers retry (new session) or continuing in text chat
+ */
+export function AgentUnavailableView({ reason, onRetry, onFallbackToChat, onBack }: AgentUnavailableViewProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="absolute inset-0 z-[250] overflow-hidden bg-[#a8d8ea]" role="alert">
+      {/* 배경 이미지 (로딩 화면과 동일) */}
+      <img
+        src={avatarLoadingImage}
+        alt=""
+        className="absolute inset-0 w-full h-full object-cover"
+      />
+
+      <div
+        className="absolute top-0 left-0 right-0 w-full max-w-[480px] mx-auto z-[200]"
+        style={{ paddingTop: 'env(safe-area-inset-top, 0px)' }}
+      >
+        <Header onBack={onBack} />
+      </div>
+
+      {/* 안내 문구 - 로딩 화면 텍스트 영역과 같은 위치 */}
+      <div
+        className="absolute left-0 right-0 flex flex-col items-center"
+        style={{
+          top: 134,
+          padding: '20px 20px 8px 20px',
+          gap: 8,
+        }}
+      >
+        <h1
+          style={{
+            fontFamily: 'Noto Sans KR, sans-serif',
+            fontSize: 20,
+            fontWeight: 700,
+            letterSpacing: -0.4,
+            lineHeight: 1.4,
+            color: '#000000',
+            textAlign: 'center',
+            width: '100%',
+          }}
+        >
+          {t('agentUnavailable.title')}
+        </h1>
+        <p
+          style={{
+            fontFamily: 'Noto Sans KR, sans-serif',
+            fontSize: 14,
+            fontWeight: 'normal',
+            letterSpacing: -0.28,
+            lineHeight: 1.4,
+            color: '#000000',
+            opacity: 0.5,
+            textAlign: 'center',
+            width: '100%',
+          }}
+        >
+          {t(`agentUnavailable.${reason}`)}
+        </p>
+      </div>
+
+      {/* 액션 버튼 */}
+      <div
+        className="absolute left-0 right-0 flex flex-col items-center"
+        style={{
+          bottom: 'calc(48px + env(safe-area-inset-bottom, 0px))',
+          gap: 12,
+        }}
+      >
+        <button
+          onClick={onRetry}
+          className="flex items-center justify-center"
+          style={{
+            width: '320px',
+            height: '50px',
+            borderRadius: '999px',
+            background: 'linear-gradient(137.78deg, #03c3ff 0%, #03c177 100%)',
+            boxShadow: '0 4px 15px rgba(3, 195, 255, 0.5)',
+            fontFamily: 'Pretendard, sans-serif',
+            fontSize: '14px',
+            fontWeight: 700,
+            letterSpacing: '-0.14px',
+            color: '#ffffff',
+          }}
+        >
+          {t('agentUnavailable.retry')}
+        </button>
+
+        <button
+          onClick={onFallbackToChat}
+          className="flex items-center justify-center"
+          style={{
+            width: '320px',
+            height: '50px',
+            gap: '4px',
+            borderRadius: '999px',
+            background: '#ffffff',
+            border: '0.5px solid rgba(1, 45, 152, 0.15)',
+          }}
+        >
+          <IconChat className="w-6 h-6" />
+          <span
+            style={{
+              fontFamily: 'Pretendard, sans-serif',
+              fontSize: '14px',
+              fontWeight: 700,
+              letterSpacing: '-0.14px',
+              lineHeight: 1.3,
+              color: '#03c3e2',
+            }}
+          >
+            {t('agentUnavailable.fallbackToChat')}
+          </span>
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,21 @@
 import { useState, useEffect, useRef } from 'react';
-import { Unity, useUnityContext } from 'react-unity-webgl';
-import { useLocalParticipant, useConnectionState, useRoomContext } from '@livekit/components-react';
+import { useLocalParticipant, useConnectionState } from '@livekit/components-react';
 import { ConnectionState, Track } from 'livekit-client';
 import { ChatMessage, AgentState } from '@/lib/types';
-import { useAnimationData } from '@/lib/hooks';
+import { useAvatarStore, selectAvatar } from '@/lib/store/avatar-store';
+import { useAnimationData, useLipSyncFallback, useTuningProfile } from '@/lib/hooks';
+import { UnityHostSlot, useUnityHost } from '@/lib/providers/UnityHostProvider';
+import { BlendshapeTuner } from '@/lib/animation/tuning-profile';
+import { createUnityFrameSink } from '@/lib/animation/unity-frame-sink';
+import { isMockMode, isRecorderEnabled, isReplayMode, showDiagnosticsOnStart } from '@/lib/config';
+import { AgentRpcClient, AgentRpcError } from '@/lib/agent/rpc-client';
 import { useTranslation } from '@/lib/i18n';
 import { Header } from '@/components/Header';
+import { TuningPanel } from '@/components/TuningPanel';
+import { RecorderControls } from '@/components/RecorderControls';
+import { ReplayControls } from '@/components/ReplayControls';
+import { DiagnosticsOverlay } from '@/components/DiagnosticsOverlay';
+import { Avatar2D } from '@/components/Avatar2D';
 import IconMic from '@/assets/icon-mic-default.svg?react';
 import iconMicMuted from '@/assets/icon-mic-muted.svg';
 import IconChat from '@/assets/icon-chat.svg?react';
@@ -21,10 +31,11 @@ interface AvatarViewProps {
   onSwitchToChat: () => void;
   conversationStarted: boolean;
   isAgentReady: boolean;
+  agentRpc: AgentRpcClient;
 }
 
 // 상태 칩 컴포넌트 (Pencil: fCyvC - massagebox)
-function StatusChip({ state }: { state: AgentState | null }) {
+function StatusChip({ state, errorText }: { state: AgentState | null; errorText?: string }) {
   // Pencil 디자인 기준 상태별 텍스트
   const labels: Record<string, string> = {
     listening: '듣는 중이에요',
@@ -33,7 +44,8 @@ function StatusChip({ state }: { state: AgentState | null }) {
   };
 
   // 상태가 없거나 idle일 때는 기본 안내 문구
-  const displayText = state ? labels[state] || '궁금한 점을 물어보세요' : '궁금한 점을 물어보세요';
+  // RPC 실패 시 에러 문구 우선 표시
+  const displayText = errorText || (state ? labels[state] || '궁금한 점을 물어보세요' : '궁금한 점을 물어보세요');
 
   return (
     <div
@@ -82,44 +94,49 @@ export function AvatarView({
   onSwitchToChat,
   conversationStarted,
   isAgentReady,
+  agentRpc,
 }: AvatarViewProps) {
   const { t } = useTranslation();
 
-  const buildName = import.meta.env.VITE_UNITY_BUILD_NAME || 'avatar';
-  const { unityProvider, isLoaded, sendMessage } = useUnityContext({
-    loaderUrl: `/unity/${buildName}/Build/${buildName}.loader.js`,
-    dataUrl: `/unity/${buildName}/Build/${buildName}.data`,
-    frameworkUrl: `/unity/${buildName}/Build/${buildName}.framework.js`,
-    codeUrl: `/unity/${buildName}/Build/${buildName}.wasm`,
-    webglContextAttributes: {
-      alpha: true,
-      premultipliedAlpha: false,
-      preserveDrawingBuffer: false,
-    },
-  });
-  const { latestFrame, interruptSignal } = useAnimationData();
+  const avatar = useAvatarStore(selectAvatar);
+  // Unity lives in UnityHostProvider (stays loaded, paused, while the chat screen is shown)
+  // Unsupported device or failed load: fallbackReason is set - voice-only with a 2D avatar
+  const { isLoaded, loadingProgression, fallbackReason, bridge: unityBridge, frameBuffer, retryLoad } = useUnityHost();
+  const isAvatarReady = isLoaded || fallbackReason !== null;
+
+  // A load that failed on an earlier visit gets another chance
+  const fallbackOnMount = useRef(fallbackReason);
+  useEffect(() => {
+    if (fallbackOnMount.current === 'load_error') retryLoad();
+  }, [retryLoad]);
+  const animationScheduler = useAnimationData();
+  useLipSyncFallback(animationScheduler, agentState === 'speaking');
+  const { profile: tuningProfile, setProfile: setTuningProfile } = useTuningProfile(avatar.build, avatar.tuning);
   const { localParticipant } = useLocalParticipant();
   const connectionState = useConnectionState();
-  const room = useRoomContext();
 
   const [isMicEnabled, setIsMicEnabled] = useState(false);
+  // i18n key, translated at render so the deferred start_conversation callback needs no `t`
+  const [rpcErrorKey, setRpcErrorKey] = useState<string | undefined>(undefined);
+  const [showDiagnostics, setShowDiagnostics] = useState(showDiagnosticsOnStart);
   const hasUserInteracted = useRef(false);
   const hasStartedConversation = useRef(false);
-  const firstUnityFrameTimeRef = useRef<number | null>(null);
-  const unitySentCountRef = useRef(0);
 
+  // Ctrl+Shift+D: toggle the diagnostics overlay
   useEffect(() => {
-    return () => {
-      firstUnityFrameTimeRef.current = null;
-      unitySentCountRef.current = 0;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey && e.shiftKey && e.key.toLowerCase() === 'd') {
+        e.preventDefault();
+        setShowDiagnostics((show) => !show);
+      }
     };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
   }, []);
 
   // iOS Safari workaround: Send background color to Unity
   // Safari doesn't properly support WebGL alpha transparency
   useEffect(() => {
-    if (!isLoaded) return;
-
     const isIOS = /iPad|iPhone|iPod/.test(navigator.userAgent);
     if (!isIOS) return;
 
@@ -137,11 +154,8 @@ export function AvatarView({
     const hexColor = rgbToHex(bgColor);
     console.log('[AvatarView] iOS Safari detected, sending background color to Unity:', hexColor);
 
-    sendMessage('ReactBridge', 'OnReactMessage', JSON.stringify({
-      action: 'setBackgroundColor',
-      backgroundColor: hexColor,
-    }));
-  }, [isLoaded, sendMessage]);
+    unityBridge.post({ action: 'setBackgroundColor', backgroundColor: hexColor });
+  }, [unityBridge]);
 
   useEffect(() => {
     if (!localParticipant) return;
@@ -182,7 +196,7 @@ export function AvatarView({
   }, [localParticipant]);
 
   useEffect(() => {
-    if (localParticipant && isLoaded && connectionState === ConnectionState.Connected && conversationStarted) {
+    if (localParticipant && isAvatarReady && connectionState === ConnectionState.Connected && conversationStarted) {
       const timer = setTimeout(() => {
         if (!hasUserInteracted.current) {
           localParticipant.setMicrophoneEnabled(true);
@@ -192,107 +206,75 @@ export function AvatarView({
 
       return () => clearTimeout(timer);
     }
-  }, [localParticipant, isLoaded, connectionState, conversationStarted]);
+  }, [localParticipant, isAvatarReady, connectionState, conversationStarted]);
 
-  // Unity 로딩 완료 + Agent 준비 완료 = 로딩 오버레이 해제 = 아바타 화면 표시
+  // Unity 로딩 완료 (또는 2D 폴백) + Agent 준비 완료 = 로딩 오버레이 해제 = 아바타 화면 표시
   // 이 시점에 start_conversation RPC 전송
   useEffect(() => {
-    if (isLoaded && isAgentReady && !hasStartedConversation.current) {
+    if (isAvatarReady && isAgentReady && !hasStartedConversation.current) {
       hasStartedConversation.current = true;
 
       // 아바타가 화면에 보인 후 1.5초 대기
       const timer = setTimeout(async () => {
-        if (!localParticipant || !room) return;
-
         try {
-          const remoteParticipants = Array.from(room.remoteParticipants.values());
-          const agentParticipant = remoteParticipants.find(p => p.identity.startsWith('agent'));
-
-          if (agentParticipant) {
-            await localParticipant.performRpc({
-              destinationIdentity: agentParticipant.identity,
-              method: 'start_conversation',
-              payload: '',
-            });
-            console.log('[AvatarView] start_conversation RPC sent (after loading complete)');
-          }
+          await agentRpc.startConversation();
+          console.log('[AvatarView] start_conversation RPC sent (after loading complete)');
         } catch (error) {
           console.error('[AvatarView] Failed to send start_conversation RPC:', error);
+          setRpcErrorKey(error instanceof AgentRpcError ? error.messageKey : 'common.error');
         }
       }, 1500);
 
       return () => clearTimeout(timer);
     }
-  }, [isLoaded, isAgentReady, localParticipant, room]);
+  }, [isAvatarReady, isAgentReady, agentRpc]);
 
   const toggleMic = async () => {
     if (localParticipant) {
       hasUserInteracted.current = true;
       const newState = !isMicEnabled;
-      await localParticipant.setMicrophoneEnabled(newState);
+      // Mock / replay mode has no room to publish to - only toggle the UI
+      if (!isMockMode && !isReplayMode) {
+        await localParticipant.setMicrophoneEnabled(newState);
+      }
       setIsMicEnabled(newState);
     }
   };
 
   const handleInterruptAgent = async () => {
-    if (!localParticipant || !room) return;
-
-    if (isLoaded) {
-      sendMessage('ReactBridge', 'OnAnimationData', 'interrupted');
-    }
-
-    const remoteParticipants = Array.from(room.remoteParticipants.values());
-    const agentParticipant = remoteParticipants.find(p => p.identity.startsWith('agent'));
-
-    if (agentParticipant) {
-      await localParticipant.performRpc({
-        destinationIdentity: agentParticipant.identity,
-        method: 'interrupt_agent',
-        payload: '',
-      });
+    unityBridge.sendAnimationData('interrupted');
+
+    try {
+      await agentRpc.interruptAgent();
+      setRpcErrorKey(undefined);
+    } catch (error) {
+      console.error('[AvatarView] Failed to send interrupt_agent RPC:', error);
+      setRpcErrorKey(error instanceof AgentRpcError ? error.messageKey : 'common.error');
     }
   };
 
+  // Queued by the bridge until Unity is ready
   useEffect(() => {
-    if (interruptSignal > 0 && isLoaded) {
-      sendMessage('ReactBridge', 'OnAnimationData', 'interrupted');
+    if (agentState) {
+      unityBridge.post({ action: 'setAgentState', state: agentState });
     }
-  }, [interruptSignal, isLoaded, sendMessage]);
+  }, [agentState, unityBridge]);
 
+  // Animation frames go scheduler -> Unity directly (no re-render per frame)
   useEffect(() => {
-    if (isLoaded && agentState) {
-      const message = JSON.stringify({ action: 'setAgentState', state: agentState });
-      sendMessage('ReactBridge', 'OnReactMessage', message);
-    }
-  }, [isLoaded, agentState, sendMessage]);
+    return animationScheduler.subscribe(
+      createUnityFrameSink(unityBridge, frameBuffer, () => animationScheduler.reportUnityFrameSent())
+    );
+  }, [animationScheduler, unityBridge, frameBuffer]);
 
+  // Per-character tuning, applied by the scheduler before frames reach Unity
   useEffect(() => {
-    if (isLoaded && latestFrame) {
-      const now = performance.now();
-
-      if (firstUnityFrameTimeRef.current === null) {
-        firstUnityFrameTimeRef.current = now;
-        console.log('[AvatarView -> Unity] First frame sent');
-      }
-
-      unitySentCountRef.current++;
-
-      let frameString: string;
-      if (latestFrame.length === 208) {
-        frameString = Array.from(latestFrame).join(',');
-      } else {
-        frameString = new TextDecoder().decode(latestFrame);
-      }
-
-      sendMessage('ReactBridge', 'OnAnimationData', frameString);
+    animationScheduler.setTuner(new BlendshapeTuner(tuningProfile));
+  }, [animationScheduler, tuningProfile]);
 
-      if (unitySentCountRef.current % 20 === 0) {
-        const elapsed = now - (firstUnityFrameTimeRef.current || now);
-        const avgInterval = elapsed / unitySentCountRef.current;
-        console.log(`[AvatarView -> Unity] Sent ${unitySentCountRef.current} frames, ~${(1000 / avgInterval).toFixed(1)} FPS`);
-      }
-    }
-  }, [isLoaded, latestFrame, sendMessage]);
+  useEffect(() => {
+    return unityBridge.on('frameTime', ({ ms }) => animationScheduler.reportUnityFrameTime(ms));
+  }, [animationScheduler, unityBridge]);
 
   return (
     <div
@@ -304,7 +286,7 @@ export function AvatarView({
       }}
     >
       {/* Loading overlay - Unity 로딩 + Agent 준비 완료까지 표시 */}
-      {(!isLoaded || !isAgentReady) && (
+      {(!isAvatarReady || !isAgentReady) && (
         <div className="absolute inset-0 z-[100] overflow-hidden bg-[#a8d8ea]">
           {/* 배경 이미지 */}
           <img
@@ -363,6 +345,43 @@ export function AvatarView({
               <br />
               편리하게 대화할 수 있습니다
             </p>
+
+            {/* Unity 로딩 진행률 */}
+            {!isAvatarReady && (
+              <div
+                className="flex items-center"
+                style={{ gap: 8, marginTop: 8 }}
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={Math.round(loadingProgression * 100)}
+              >
+                <div
+                  className="overflow-hidden"
+                  style={{ width: 160, height: 4, borderRadius: 99, background: 'rgba(255, 255, 255, 0.6)' }}
+                >
+                  <div
+                    style={{
+                      width: `${loadingProgression * 100}%`,
+                      height: '100%',
+                      background: '#01a4f0',
+                      transition: 'width 0.2s ease-out',
+                    }}
+                  />
+                </div>
+                <span
+                  style={{
+                    fontFamily: 'Pretendard, sans-serif',
+                    fontSize: 12,
+                    lineHeight: 1.4,
+                    color: '#01a4f0',
+                    minWidth: 32,
+                  }}
+                >
+                  {Math.round(loadingProgression * 100)}%
+                </span>
+              </div>
+            )}
           </div>
 
           {/* container-greeting-bubble (Pencil: n4MDf) */}
@@ -434,13 +453,37 @@ export function AvatarView({
         >
           <Header onBack={onBack} />
         </div>
+
+        {/* Dev only: live blendshape tuning */}
+        {import.meta.env.DEV && (
+          <TuningPanel buildName={avatar.build} profile={tuningProfile} onChange={setTuningProfile} />
+        )}
+
+        {/* Debug: record the session (dev / ?record) or play one back (?replay) */}
+        {isReplayMode ? (
+          <ReplayControls />
+        ) : isRecorderEnabled && (
+          <RecorderControls buildName={avatar.build} agentState={agentState} />
+        )}
+
+        {showDiagnostics && (
+          <DiagnosticsOverlay
+            scheduler={animationScheduler}
+            agentState={agentState}
+            onClose={() => setShowDiagnostics(false)}
+          />
+        )}
         <div className="shrink-0" style={{ height: 'calc(56px + env(safe-area-inset-top, 0px))' }} />
 
         {/* Unity container */}
         <div className="flex-1 relative min-h-[300px]">
           <div className="absolute inset-0 flex justify-center items-end" style={{ zIndex: 45 }}>
-            <div style={{ width: 'min(360px, 100vw)', height: '100%' }}>
-              <Unity unityProvider={unityProvider} devicePixelRatio={window.devicePixelRatio} style={{ width: '100%', height: '100%' }} />
+            <div className="relative" style={{ width: 'min(360px, 100vw)', height: '100%' }}>
+              {fallbackReason ? (
+                <Avatar2D agentState={agentState} agentVolume={agentVolume} reason={fallbackReason} onRetry={retryLoad} />
+              ) : (
+                <UnityHostSlot />
+              )}
             </div>
           </div>
         </div>
@@ -485,7 +528,7 @@ export function AvatarView({
               }}
             >
               {/* 상태 칩 (Pencil: fCyvC) */}
-              <StatusChip state={agentState} />
+              <StatusChip state={agentState} errorText={rpcErrorKey && t(rpcErrorKey)} />
 
               {/* 메시지 텍스트 영역 - 3줄 고정 높이, 초과 시 위쪽 잘림 */}
               <div
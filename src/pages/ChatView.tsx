@@ -1,12 +1,15 @@
 import { useState, useRef, useEffect, useCallback, memo } from 'react';
-import { useLocalParticipant, useRoomContext } from '@livekit/components-react';
 import ReactMarkdown from 'react-markdown';
 import { useSessionStore } from '@/lib/store/session-store';
+import { useAvatarStore, selectAvatar } from '@/lib/store/avatar-store';
 import { useADK } from '@/lib/hooks';
+import { useLiveKitSession } from '@/lib/providers/LiveKitSessionHandler';
+import { AgentRpcError } from '@/lib/agent/rpc-client';
 import { useTranslation } from '@/lib/i18n';
 import { Header } from '@/components/Header';
 import { FAQChips } from '@/components/FAQChips';
 import { LanguageDropdown } from '@/components/LanguageDropdown';
+import { AvatarPicker } from '@/components/AvatarPicker';
 import { ToolPopup } from '@/components/ToolPopup';
 import { TagChip } from '@/components/TagChip';
 import { FAQ_ITEMS, DEFAULT_LANGUAGE, TOOL_OPTIONS, type FAQItem } from '@/lib/config';
@@ -125,9 +128,13 @@ const ChatMessageItem = memo(function ChatMessageItem({ msg }: { msg: Message })
 function ChatContent({ onBack, onSwitchToAvatar, sendMessage, isLoading }: ChatContentProps) {
   const { t } = useTranslation();
   const messages = useSessionStore((state) => state.messages);
+  const avatars = useAvatarStore((state) => state.manifest.avatars);
+  const avatar = useAvatarStore(selectAvatar);
+  const setAvatarId = useAvatarStore((state) => state.setAvatarId);
 
   const [inputText, setInputText] = useState('');
   const [isLanguageOpen, setIsLanguageOpen] = useState(false);
+  const [isAvatarPickerOpen, setIsAvatarPickerOpen] = useState(false);
   const [selectedLanguage, setSelectedLanguage] = useState(DEFAULT_LANGUAGE);
   const [isToolOpen, setIsToolOpen] = useState(false);
   const [selectedTool, setSelectedTool] = useState(TOOL_OPTIONS[0]?.id || 'search');
@@ -232,7 +239,23 @@ function ChatContent({ onBack, onSwitchToAvatar, sendMessage, isLoading }: ChatC
         <Header
           onBack={onBack}
           onLanguageClick={() => setIsLanguageOpen(!isLanguageOpen)}
+          // Picker only when the manifest lists more than one character
+          onAvatarClick={avatars.length > 1 ? () => setIsAvatarPickerOpen(!isAvatarPickerOpen) : undefined}
+          avatarThumbnail={avatar.thumbnail}
         />
+        {/* Avatar Picker */}
+        <div className="absolute top-full right-5">
+          <AvatarPicker
+            isOpen={isAvatarPickerOpen}
+            avatars={avatars}
+            selected={avatar.id}
+            onSelect={(id) => {
+              setAvatarId(id);
+              setIsAvatarPickerOpen(false);
+            }}
+            onClose={() => setIsAvatarPickerOpen(false)}
+          />
+        </div>
         {/* Language Dropdown */}
         <div className="absolute top-full right-5">
           <LanguageDropdown
@@ -408,9 +431,9 @@ function ADKChatContent({ onBack, onSwitchToAvatar }: Omit<ChatViewProps, 'mode'
  * Note: toolPrefix is ignored in LiveKit mode (ADK-only feature)
  */
 function LiveKitChatContent({ onBack, onSwitchToAvatar }: Omit<ChatViewProps, 'mode'>) {
-  const { localParticipant } = useLocalParticipant();
-  const room = useRoomContext();
+  const { agentRpc } = useLiveKitSession();
   const addMessage = useSessionStore((state) => state.addMessage);
+  const { t } = useTranslation();
 
   const sendMessage = useCallback(async (text: string, _toolPrefix?: string) => {
     addMessage({
@@ -423,21 +446,22 @@ function LiveKitChatContent({ onBack, onSwitchToAvatar }: Omit<ChatViewProps, 'm
     });
 
     try {
-      const remoteParticipants = Array.from(room.remoteParticipants.values());
-      const agentParticipant = remoteParticipants.find(p => p.identity.startsWith('agent'));
-
-      if (agentParticipant) {
-        await localParticipant.performRpc({
-          destinationIdentity: agentParticipant.identity,
-          method: 'send_text_input',
-          payload: JSON.stringify({ text }),
-        });
-        console.log('[ChatView] Text sent to agent:', text);
-      }
+      await agentRpc.sendTextInput(text);
+      console.log('[ChatView] Text sent to agent:', text);
     } catch (error) {
       console.error('[ChatView] Failed to send text:', error);
+
+      // Show the failure in the conversation (same as ADK mode errors)
+      addMessage({
+        id: `error-${Date.now()}`,
+        message: error instanceof AgentRpcError ? t(error.messageKey) : t('common.error'),
+        isUser: false,
+        timestamp: Date.now(),
+        sender: 'Agent',
+        isFinal: true,
+      });
     }
-  }, [localParticipant, room, addMessage]);
+  }, [agentRpc, addMessage, t]);
 
   return (
     <ChatContent
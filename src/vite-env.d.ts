@@ -3,14 +3,13 @@
 
 interface ImportMetaEnv {
   readonly VITE_LIVEKIT_URL: string;
-  readonly VITE_ROOM_PREFIX: string;
+  readonly VITE_AGENT_NAME?: string;
+  readonly VITE_AGENT_JOIN_TIMEOUT_MS?: string;
   readonly VITE_CHAT_MODE?: string;
-  readonly VITE_ADK_URL?: string;
-  readonly VITE_ADK_APP_NAME?: string;
-  readonly VITE_ADK_USER_ID?: string;
   readonly VITE_UNITY_BUILD_NAME?: string;
-  readonly VITE_SESSION_API_URL?: string;
-  readonly VITE_SESSION_API_KEY?: string;
+  readonly VITE_ANIMATION_TARGET_DELAY_MS?: string;
+  readonly VITE_AVATAR_TARGET_FPS?: string;
+  readonly VITE_UNITY_KEEP_WARM_MS?: string;
 }
 
 interface ImportMeta {
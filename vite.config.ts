@@ -3,85 +3,145 @@ import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
 import svgr from 'vite-plugin-svgr'
 import path from 'path'
-import { AccessToken } from 'livekit-server-sdk'
+import fs from 'fs'
+import { createHash } from 'crypto'
+import { handleTokenRequest } from './api/_lib/token'
+import { handleSessionProxy } from './api/_lib/session-proxy'
+import { handleADKProxy } from './api/_lib/adk-proxy'
+import { handleLiveKitWebhook } from './api/_lib/webhook'
+import type { ApiHandler } from './api/_lib/http'
+import { createFakeADK } from './dev/fake-adk/fake-adk'
+import { loadFakeADKOptions } from './dev/fake-adk/options'
 
 // Load .env for server-side use
 import dotenv from 'dotenv'
 dotenv.config()
 
 /**
- * Vite Plugin for local LiveKit token generation
- * Allows `npm run dev` to work without `vercel dev`
+ * Vite Plugin that mounts a shared api/_lib handler in the dev server
+ * Runs the same code as the matching Vercel function, so `npm run dev`
+ * works without `vercel dev` and secrets stay server-side
  */
-function livekitTokenPlugin(): Plugin {
+function apiRoutePlugin(route: string, handler: ApiHandler): Plugin {
   return {
-    name: 'livekit-token-dev',
+    name: `api-route-dev:${route}`,
     configureServer(server) {
-      server.middlewares.use('/api/token', async (req, res, next) => {
-        if (req.method === 'OPTIONS') {
-          res.setHeader('Access-Control-Allow-Origin', '*')
-          res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS')
-          res.setHeader('Access-Control-Allow-Headers', 'Content-Type')
-          res.statusCode = 200
-          res.end()
-          return
-        }
+      server.middlewares.use(route, (req, res) => {
+        handler(req, res)
+      })
+    },
+  }
+}
+
+/**
+ * Vite Plugin that serves the fake ADK + Session API when FAKE_ADK is set
+ * Mounted at /__fake/adk and /__fake/session-api, and the /api/adk and
+ * /api/session proxies are pointed at it, so ADK mode runs with no network
+ */
+function fakeADKPlugin(): Plugin {
+  return {
+    name: 'fake-adk-dev',
+    apply: 'serve',
+    configureServer(server) {
+      if (!process.env.FAKE_ADK) return
 
-        if (req.method !== 'POST') {
-          next()
-          return
-        }
+      const fake = createFakeADK(loadFakeADKOptions())
+      server.middlewares.use('/__fake/adk', (req, res) => {
+        fake.adk(req, res)
+      })
+      server.middlewares.use('/__fake/session-api', (req, res) => {
+        fake.sessionApi(req, res)
+      })
 
-        // Read request body
-        let body = ''
-        req.on('data', chunk => { body += chunk })
-        req.on('end', async () => {
-          try {
-            const { room, identity, metadata } = JSON.parse(body)
+      server.httpServer?.once('listening', () => {
+        const address = server.httpServer?.address()
+        const port = typeof address === 'object' && address ? address.port : server.config.server.port
+        process.env.ADK_URL = `http://localhost:${port}/__fake/adk`
+        process.env.SESSION_API_URL = `http://localhost:${port}/__fake/session-api`
+        // Identity cookie needs a signing secret; allow a bare checkout to run
+        process.env.IDENTITY_COOKIE_SECRET ||= process.env.LIVEKIT_API_SECRET || 'fake-adk-dev-secret'
+        server.config.logger.info(`  [FakeADK] Serving ADK and Session API at ${process.env.ADK_URL} and ${process.env.SESSION_API_URL}`)
+      })
+    },
+  }
+}
 
-            const apiKey = process.env.LIVEKIT_API_KEY
-            const apiSecret = process.env.LIVEKIT_API_SECRET
+/**
+ * Content hash of every Unity build under public/unity/{name}/Build/ (file names + bytes)
+ * Memoized on size/mtime so the dev server does not re-read the .data on every request
+ */
+const unityHashMemo = new Map<string, { stamp: string; hash: string }>()
 
-            if (!apiKey || !apiSecret) {
-              res.statusCode = 500
-              res.setHeader('Content-Type', 'application/json')
-              res.end(JSON.stringify({
-                error: 'LIVEKIT_API_KEY and LIVEKIT_API_SECRET must be set in .env'
-              }))
-              return
-            }
+async function hashUnityBuilds(unityDir: string): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {}
+  if (!fs.existsSync(unityDir)) return hashes
 
-            const token = new AccessToken(apiKey, apiSecret, { identity })
-            token.addGrant({
-              room,
-              roomJoin: true,
-              canPublish: true,
-              canSubscribe: true,
-            })
+  for (const build of fs.readdirSync(unityDir).sort()) {
+    const buildDir = path.join(unityDir, build, 'Build')
+    if (!fs.existsSync(buildDir)) continue
 
-            if (metadata) {
-              token.metadata = JSON.stringify(metadata)
-            }
+    const files = fs.readdirSync(buildDir).sort()
+    const stamp = files.map((file) => {
+      const stat = fs.statSync(path.join(buildDir, file))
+      return `${file}:${stat.size}:${stat.mtimeMs}`
+    }).join('|')
+    const memo = unityHashMemo.get(build)
+    if (memo?.stamp === stamp) {
+      hashes[build] = memo.hash
+      continue
+    }
 
-            const jwt = await token.toJwt()
+    const hash = createHash('sha256')
+    for (const file of files) {
+      hash.update(file)
+      for await (const chunk of fs.createReadStream(path.join(buildDir, file))) {
+        hash.update(chunk as Buffer)
+      }
+    }
+    hashes[build] = hash.digest('hex').slice(0, 16)
+    unityHashMemo.set(build, { stamp, hash: hashes[build] })
+  }
+  return hashes
+}
 
-            res.setHeader('Access-Control-Allow-Origin', '*')
-            res.setHeader('Content-Type', 'application/json')
-            res.end(JSON.stringify({ token: jwt }))
-          } catch (error) {
-            console.error('[Token Plugin] Error:', error)
-            res.statusCode = 500
-            res.setHeader('Content-Type', 'application/json')
-            res.end(JSON.stringify({ error: 'Failed to generate token' }))
-          }
-        })
+/**
+ * Vite Plugin that publishes /unity/builds.json ({ "eric": "<content hash>" })
+ * The client versions Unity build URLs with it (?v=) and the service worker
+ * caches per version (public/sw.js)
+ */
+function unityBuildHashPlugin(): Plugin {
+  const unityDir = path.resolve(__dirname, 'public/unity')
+  return {
+    name: 'unity-build-hashes',
+    configureServer(server) {
+      server.middlewares.use('/unity/builds.json', async (_req, res) => {
+        res.setHeader('Content-Type', 'application/json')
+        res.setHeader('Cache-Control', 'no-cache')
+        res.end(JSON.stringify(await hashUnityBuilds(unityDir)))
+      })
+    },
+    async generateBundle() {
+      this.emitFile({
+        type: 'asset',
+        fileName: 'unity/builds.json',
+        source: JSON.stringify(await hashUnityBuilds(unityDir), null, 2),
       })
     },
   }
 }
 
 export default defineConfig({
-  plugins: [react(), tailwindcss(), svgr(), livekitTokenPlugin()],
+  plugins: [
+    react(),
+    tailwindcss(),
+    svgr(),
+    apiRoutePlugin('/api/token', handleTokenRequest),
+    apiRoutePlugin('/api/session', handleSessionProxy),
+    apiRoutePlugin('/api/adk', handleADKProxy),
+    apiRoutePlugin('/api/livekit-webhook', handleLiveKitWebhook),
+    fakeADKPlugin(),
+    unityBuildHashPlugin(),
+  ],
   publicDir: 'public',
   resolve: {
     alias: {